@@ -1,6 +1,8 @@
 import { EventSchemas } from "@local/components/EventSchemas";
+import { EventValidationError } from "@local/components/EventValidationError";
 import { Inngest, type GetEvents } from "@local/components/Inngest";
 import { type internalEvents } from "@local/helpers/consts";
+import { createEventId } from "@local/helpers/strings";
 import { type IsAny, type IsEqual } from "@local/helpers/types";
 import { type EventPayload, type FailureEventPayload } from "@local/types";
 import { z } from "zod";
@@ -1182,4 +1184,182 @@ describe("EventSchemas", () => {
       );
     });
   });
+
+  describe("validate", () => {
+    const schemas = new EventSchemas()
+      .fromZod({
+        "test.event": {
+          data: z.object({ id: z.string(), count: z.number() }),
+          user: z.object({ email: z.string() }),
+        },
+      })
+      .fromZod([
+        z.object({
+          name: z.literal("test.literal"),
+          data: z.object({ a: z.boolean() }),
+        }),
+      ])
+      .fromRecord<{ "test.record": { data: { foo: string } } }>();
+
+    const validate = (payloads: EventPayload[]) => () =>
+      schemas["validate"](payloads);
+
+    test("allows valid events", () => {
+      expect(
+        validate([
+          {
+            name: "test.event",
+            data: { id: "1", count: 1 },
+            user: { email: "a@b.c" },
+          },
+          { name: "test.literal", data: { a: true } },
+        ])
+      ).not.toThrow();
+    });
+
+    test("allows events without a schema", () => {
+      expect(
+        validate([
+          { name: "test.record", data: { foo: 1 } },
+          { name: "test.unknown", data: null },
+        ])
+      ).not.toThrow();
+    });
+
+    test("throws an EventValidationError with every issue", () => {
+      let err: unknown;
+
+      try {
+        validate([
+          { name: "test.literal", data: { a: true } },
+          { name: "test.event", data: { id: 1 }, user: {} },
+          { name: "test.literal", data: {} },
+        ])();
+      } catch (e) {
+        err = e;
+      }
+
+      expect(err).toBeInstanceOf(EventValidationError);
+      expect(err).toMatchObject({
+        issues: [
+          {
+            name: "test.event",
+            index: 1,
+            path: ["data", "id"],
+            message: "Expected string, received number",
+          },
+          {
+            name: "test.event",
+            index: 1,
+            path: ["data", "count"],
+            message: "Required",
+          },
+          {
+            name: "test.event",
+            index: 1,
+            path: ["user", "email"],
+            message: "Required",
+          },
+          {
+            name: "test.literal",
+            index: 2,
+            path: ["data", "a"],
+            message: "Required",
+          },
+        ],
+      });
+    });
+
+    test("includes issue paths in the error message", () => {
+      expect(validate([{ name: "test.literal", data: {} }])).toThrow(
+        'Invalid event payload: "test.literal" (event 0) at data.a: Required'
+      );
+    });
+  });
+
+  describe("withEventIds", () => {
+    const schemas = new EventSchemas()
+      .fromRecord<{
+        "test.order": { data: { orderId: string; version: number } };
+        "test.other": { data: { foo: string } };
+      }>()
+      .withEventIds({
+        "test.order": (event) => [event.data.orderId, event.data.version],
+      });
+
+    const addEventIds = (payloads: EventPayload[]) =>
+      schemas["addEventIds"](payloads);
+
+    test("keeps types", () => {
+      const expected = new EventSchemas().fromRecord<{
+        "test.order": { data: { orderId: string; version: number } };
+        "test.other": { data: { foo: string } };
+      }>();
+
+      assertType<IsEqual<Schemas<typeof schemas>, Schemas<typeof expected>>>(
+        true
+      );
+    });
+
+    test("types the event given to each key function", () => {
+      new EventSchemas()
+        .fromRecord<{ "test.order": { data: { orderId: string } } }>()
+        .withEventIds({
+          "test.order": (event) => {
+            assertType<IsEqual<typeof event.data, { orderId: string }>>(true);
+            return event.data.orderId;
+          },
+          // @ts-expect-error Unknown event
+          "test.unknown": () => "",
+        });
+    });
+
+    test("adds deterministic IDs to events with a key function", () => {
+      const [first] = addEventIds([
+        { name: "test.order", data: { orderId: "a", version: 1 } },
+      ]);
+      const [second] = addEventIds([
+        { name: "test.order", data: { orderId: "a", version: 1 } },
+      ]);
+      const [third] = addEventIds([
+        { name: "test.order", data: { orderId: "a", version: 2 } },
+      ]);
+
+      expect(first?.id).toEqual(createEventId("test.order", ["a", 1]));
+      expect(second?.id).toEqual(first?.id);
+      expect(third?.id).not.toEqual(first?.id);
+    });
+
+    test("does not replace existing IDs", () => {
+      expect(
+        addEventIds([
+          {
+            id: "my-id",
+            name: "test.order",
+            data: { orderId: "a", version: 1 },
+          },
+        ])
+      ).toEqual([expect.objectContaining({ id: "my-id" })]);
+    });
+
+    test("does not add IDs to events without a key function", () => {
+      expect(
+        addEventIds([{ name: "test.other", data: { foo: "bar" } }])
+      ).toEqual([{ name: "test.other", data: { foo: "bar" } }]);
+    });
+
+    test("keeps key functions when adding more schemas", () => {
+      const extended = schemas.fromRecord<{ "test.new": { data: object } }>();
+
+      expect(
+        extended["addEventIds"]([
+          { name: "test.order", data: { orderId: "a", version: 1 } },
+        ])
+      ).toEqual([
+        expect.objectContaining({
+          id: createEventId("test.order", ["a", 1]),
+        }),
+      ]);
+    });
+  });
 });
@@ -1,4 +1,5 @@
 import { type internalEvents } from "../helpers/consts";
+import { createEventId } from "../helpers/strings";
 import {
   type IsEmptyObject,
   type IsStringLiteral,
@@ -12,6 +13,10 @@ import {
   type InvokedEventPayload,
   type ScheduledTimerEventPayload,
 } from "../types";
+import {
+  EventValidationError,
+  type EventValidationIssue,
+} from "./EventValidationError";
 
 /**
  * Declares the shape of an event schema we expect from the user. This may be
@@ -118,6 +123,34 @@ export type ZodEventSchemas = Record<
   }
 >;
 
+/**
+ * The Zod schemas for a single event that are kept at runtime, used to
+ * validate events if `validateEvents` is enabled on a client.
+ */
+type RuntimeEventSchema = {
+  data?: unknown;
+  user?: unknown;
+};
+
+/**
+ * A function given using `withEventIds` that returns the key used to create a
+ * deterministic ID for an event.
+ */
+type EventIdKeyFn = (event: EventPayload) => unknown;
+
+/**
+ * The minimal shape of a Zod schema that we need to validate a value, relying
+ * on as few fields as possible to stay compatible across versions of Zod.
+ */
+type SafeParseable = {
+  safeParse: (value: unknown) =>
+    | { success: true }
+    | {
+        success: false;
+        error: { issues: { path: (string | number)[]; message: string }[] };
+      };
+};
+
 /**
  * A helper type that takes a union of Zod schemas and extracts the literal
  * matching event from the given schemas. Required when picking out types from
@@ -248,11 +281,23 @@ export class EventSchemas<
     [internalEvents.ScheduledTimer]: ScheduledTimerEventPayload;
   }>,
 > {
+  /**
+   * Zod schemas given using `fromZod`, kept so that events can be validated at
+   * runtime.
+   */
+  private runtimeSchemas: Record<string, RuntimeEventSchema> = {};
+
+  /**
+   * Functions given using `withEventIds` to derive the key used to create a
+   * deterministic ID for each event name.
+   */
+  private eventIdKeys: Record<string, EventIdKeyFn> = {};
+
   /**
    * Use generated Inngest types to type events.
    */
   public fromGenerated<T extends StandardEventSchemas>() {
-    return new EventSchemas<Combine<S, T>>();
+    return this.extend(new EventSchemas<Combine<S, T>>());
   }
 
   /**
@@ -279,7 +324,7 @@ export class EventSchemas<
       ? [ClashingNameError]
       : []
   ) {
-    return new EventSchemas<Combine<S, T>>();
+    return this.extend(new EventSchemas<Combine<S, T>>());
   }
 
   /**
@@ -309,19 +354,24 @@ export class EventSchemas<
    * ```
    */
   public fromUnion<T extends { name: string } & StandardEventSchema>() {
-    return new EventSchemas<
-      Combine<
-        S,
-        {
-          [K in T["name"]]: Extract<T, { name: K }>;
-        }
-      >
-    >();
+    return this.extend(
+      new EventSchemas<
+        Combine<
+          S,
+          {
+            [K in T["name"]]: Extract<T, { name: K }>;
+          }
+        >
+      >()
+    );
   }
 
   /**
    * Use Zod to type events.
    *
+   * The schemas are also kept at runtime, so events can be validated against
+   * them by setting `validateEvents: true` when creating a client.
+   *
    * @example
    *
    * ```ts
@@ -339,16 +389,146 @@ export class EventSchemas<
    * ```
    */
   public fromZod<T extends ZodEventSchemas | LiteralZodEventSchemas>(
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
     schemas: T
   ) {
-    return new EventSchemas<
-      Combine<
-        S,
-        ZodToStandardSchema<
-          T extends ZodEventSchemas ? T : LiteralToRecordZodSchemas<T>
+    const runtimeSchemas: Record<string, RuntimeEventSchema> = Array.isArray(
+      schemas
+    )
+      ? Object.fromEntries(
+          schemas.map((schema) => {
+            const { name, data, user } = schema.shape;
+            return [name.value, { data, user }];
+          })
+        )
+      : schemas;
+
+    return this.extend(
+      new EventSchemas<
+        Combine<
+          S,
+          ZodToStandardSchema<
+            T extends ZodEventSchemas ? T : LiteralToRecordZodSchemas<T>
+          >
         >
-      >
-    >();
+      >(),
+      { runtimeSchemas }
+    );
+  }
+
+  /**
+   * Give events deterministic IDs, derived from a key returned by the given
+   * function for each event name, so that sending the same event more than
+   * once, such as when a producer retries, doesn't trigger duplicate runs.
+   *
+   * The key can be any JSON-serializable value picked from the event, and is
+   * hashed along with the event's name to create its ID using
+   * `createEventId()`. Events that are sent with an `id` keep it.
+   *
+   * IDs are added to events sent using both `inngest.send()` and
+   * `step.sendEvent()`.
+   *
+   * @example
+   *
+   * ```ts
+   * export const inngest = new Inngest({
+   *   id: "my-app",
+   *   schemas: new EventSchemas()
+   *     .fromRecord<{
+   *       "app/order.placed": { data: { orderId: string; version: number } };
+   *     }>()
+   *     .withEventIds({
+   *       "app/order.placed": (event) => [
+   *         event.data.orderId,
+   *         event.data.version,
+   *       ],
+   *     }),
+   * });
+   * ```
+   */
+  public withEventIds(keys: {
+    [K in keyof S & string]?: (event: S[K]) => unknown;
+  }) {
+    return this.extend(new EventSchemas<S>(), {
+      eventIdKeys: keys as unknown as Record<string, EventIdKeyFn>,
+    });
+  }
+
+  /**
+   * Carry the runtime schemas and event ID keys of this instance over to the
+   * `next` instance, adding any new ones.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private extend<T extends EventSchemas<any>>(
+    next: T,
+    {
+      runtimeSchemas,
+      eventIdKeys,
+    }: {
+      runtimeSchemas?: Record<string, RuntimeEventSchema>;
+      eventIdKeys?: Record<string, EventIdKeyFn>;
+    } = {}
+  ): T {
+    next.runtimeSchemas = { ...this.runtimeSchemas, ...runtimeSchemas };
+    next.eventIdKeys = { ...this.eventIdKeys, ...eventIdKeys };
+
+    return next;
+  }
+
+  /**
+   * Add a deterministic ID to each of the given events that has a key function
+   * given using `withEventIds` and doesn't already have an ID.
+   */
+  private addEventIds(payloads: EventPayload[]): EventPayload[] {
+    return payloads.map((payload) => {
+      const getKey = this.eventIdKeys[payload.name];
+      if (payload.id || !getKey) {
+        return payload;
+      }
+
+      return { ...payload, id: createEventId(payload.name, getKey(payload)) };
+    });
+  }
+
+  /**
+   * Validate the given events against any Zod schemas given using `fromZod`,
+   * throwing an {@link EventValidationError} containing every issue found if
+   * any are invalid.
+   *
+   * Events without a schema are not validated.
+   */
+  private validate(payloads: EventPayload[]): void {
+    const issues = payloads.flatMap((payload, index) => {
+      const schema = this.runtimeSchemas[payload.name];
+      if (!schema) {
+        return [];
+      }
+
+      return (["data", "user"] as const).flatMap<EventValidationIssue>(
+        (key) => {
+          const validator = schema[key] as SafeParseable | undefined;
+          if (typeof validator?.safeParse !== "function") {
+            return [];
+          }
+
+          const result = validator.safeParse(
+            key === "data" ? payload.data ?? {} : payload.user
+          );
+          if (result.success) {
+            return [];
+          }
+
+          return result.error.issues.map(({ path, message }) => ({
+            name: payload.name,
+            index,
+            path: [key, ...path],
+            message,
+          }));
+        }
+      );
+    });
+
+    if (issues.length) {
+      throw new EventValidationError(issues);
+    }
   }
 }
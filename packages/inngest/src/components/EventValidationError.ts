@@ -0,0 +1,57 @@
+import { NonRetriableError } from "./NonRetriableError";
+
+/**
+ * A single problem found when validating an event against its schema.
+ *
+ * @public
+ */
+export interface EventValidationIssue {
+  /**
+   * The name of the event that failed validation.
+   */
+  name: string;
+
+  /**
+   * The index of the event within the events being validated.
+   */
+  index: number;
+
+  /**
+   * The path to the invalid value within the event, e.g. `["data", "id"]`.
+   */
+  path: (string | number)[];
+
+  /**
+   * A message describing why the value is invalid.
+   */
+  message: string;
+}
+
+/**
+ * An error thrown when `validateEvents` is enabled on a client and an event
+ * being sent or received does not match its schema.
+ *
+ * As an invalid event will never become valid by retrying, this is a
+ * `NonRetriableError`.
+ *
+ * @public
+ */
+export class EventValidationError extends NonRetriableError {
+  /**
+   * Every problem found with the events that were validated.
+   */
+  public readonly issues: EventValidationIssue[];
+
+  constructor(issues: EventValidationIssue[]) {
+    super(
+      `Invalid event payload: ${issues
+        .map(({ name, index, path, message }) => {
+          return `"${name}" (event ${index}) at ${path.join(".")}: ${message}`;
+        })
+        .join("; ")}`
+    );
+
+    this.issues = issues;
+    this.name = "EventValidationError";
+  }
+}
@@ -1,8 +1,12 @@
 import {
   EventSchemas,
+  EventValidationError,
   Inngest,
   InngestMiddleware,
+  InngestTestEngine,
+  createEventId,
   referenceFunction,
+  SendEventPartialError,
   type EventPayload,
   type GetEvents,
   type GetFunctionInput,
@@ -14,7 +18,7 @@ import { envKeys, headerKeys, internalEvents } from "@local/helpers/consts";
 import { type IsAny, type IsEqual, type IsNever } from "@local/helpers/types";
 import { type Logger } from "@local/middleware/logger";
 import { type SendEventResponse } from "@local/types";
-import { literal } from "zod";
+import { literal, z } from "zod";
 import { assertType, createClient } from "../test/helpers";
 
 const testEvent: EventPayload = {
@@ -130,6 +134,46 @@ describe("new Inngest()", () => {
   });
 });
 
+describe("validateEvents", () => {
+  const inngest = createClient({
+    id: "test",
+    schemas: new EventSchemas().fromZod({
+      test: { data: z.object({ id: z.string() }) },
+    }),
+    validateEvents: true,
+  });
+
+  const handler = jest.fn(() => "done");
+  const fn = inngest.createFunction({ id: "fn" }, { event: "test" }, handler);
+
+  beforeEach(() => {
+    handler.mockClear();
+  });
+
+  test("runs the handler for a valid incoming event", async () => {
+    const { result } = await new InngestTestEngine({
+      function: fn,
+      events: [{ name: "test", data: { id: "1" } }],
+    }).execute();
+
+    expect(result).toBe("done");
+  });
+
+  test("fails without retrying for an invalid incoming event", async () => {
+    const { error } = await new InngestTestEngine({
+      function: fn,
+      events: [{ name: "test", data: { id: 1 } }],
+    }).execute();
+
+    expect(error).toMatchObject({
+      name: "EventValidationError",
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      message: expect.stringContaining("data.id"),
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
 describe("send", () => {
   describe("runtime", () => {
     const originalProcessEnv = process.env;
@@ -493,6 +537,124 @@ describe("send", () => {
       });
     });
 
+    describe("withEventIds", () => {
+      const schemas = new EventSchemas()
+        .fromRecord<{ test: { data: { id: string } } }>()
+        .withEventIds({ test: (event) => event.data.id });
+
+      test("should add deterministic IDs to events before middleware", async () => {
+        const fetch = setFetch();
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+          schemas,
+          middleware: [
+            new InngestMiddleware({
+              name: "Test",
+              init() {
+                return {
+                  onSendEvent() {
+                    return {
+                      transformInput({ payloads }) {
+                        return {
+                          payloads: payloads.map((payload) => ({
+                            ...payload,
+                            data: { encrypted: true },
+                          })),
+                        };
+                      },
+                    };
+                  },
+                };
+              },
+            }),
+          ],
+        });
+
+        await inngest.send({ name: "test", data: { id: "1" } });
+        await inngest.send({ name: "test", data: { id: "1" } });
+
+        const [[first], [second]] = (
+          fetch as jest.Mock<unknown, [string, { body: string }]>
+        ).mock.calls.map(
+          ([, opts]) => JSON.parse(opts.body) as EventPayload[]
+        ) as [EventPayload[], EventPayload[]];
+
+        expect(first?.id).toEqual(createEventId("test", "1"));
+        expect(second?.id).toEqual(first?.id);
+      });
+    });
+
+    describe("validateEvents", () => {
+      const schemas = new EventSchemas().fromZod({
+        test: { data: z.object({ id: z.string() }) },
+      });
+
+      test("should throw an EventValidationError for an invalid event", async () => {
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          schemas,
+          validateEvents: true,
+        });
+
+        await expect(
+          inngest.send({ name: "test", data: { id: 1 } as unknown as never })
+        ).rejects.toThrow(EventValidationError);
+
+        expect(global.fetch).not.toHaveBeenCalled();
+      });
+
+      test("should validate events before middleware transforms them", async () => {
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          schemas,
+          validateEvents: true,
+          middleware: [
+            new InngestMiddleware({
+              name: "Test",
+              init() {
+                return {
+                  onSendEvent() {
+                    return {
+                      transformInput({ payloads }) {
+                        return {
+                          payloads: payloads.map((payload) => ({
+                            ...payload,
+                            data: { encrypted: true },
+                          })),
+                        };
+                      },
+                    };
+                  },
+                };
+              },
+            }),
+          ],
+        });
+
+        await expect(
+          inngest.send({ name: "test", data: { id: "1" } })
+        ).resolves.toMatchObject({ ids: ["test-id"] });
+      });
+
+      test("should not validate events if not enabled", async () => {
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          schemas,
+        });
+
+        await expect(
+          inngest.send({ name: "test", data: { id: 1 } as unknown as never })
+        ).resolves.toMatchObject({ ids: ["test-id"] });
+      });
+    });
+
     test("should return error from Inngest if parsed", () => {
       const inngest = createClient({
         id: "test",
@@ -534,6 +696,578 @@ describe("send", () => {
 
       return expect(inngest.send(testEvent)).rejects.toThrowError("600");
     });
+
+    describe("sendRetries", () => {
+      /**
+       * Create a fetch that responds using each of the given fetches in turn,
+       * reusing the last once they've all been used.
+       */
+      const sequenceFetch = (
+        ...fetches: ((
+          url: string,
+          opts: { body: string }
+        ) => Promise<unknown>)[]
+      ) => {
+        let i = 0;
+
+        return jest.fn((url: string, opts: { body: string }) => {
+          const next = fetches[Math.min(i++, fetches.length - 1)];
+          return next!(url, opts);
+        }) as unknown as typeof fetch;
+      };
+
+      const withHeaders = (
+        fetch: typeof global.fetch,
+        headers: Record<string, string>
+      ) => {
+        return async (url: string, opts: { body: string }) => {
+          const res = await (
+            fetch as unknown as jest.Mock<Promise<Record<string, unknown>>>
+          )(url, opts);
+
+          return { ...res, headers: new Headers(headers) };
+        };
+      };
+
+      const getSentPayloads = (fetch: typeof global.fetch) => {
+        return (
+          fetch as jest.Mock<unknown, [string, { body: string }]>
+        ).mock.calls.map(([, opts]) => JSON.parse(opts.body) as EventPayload[]);
+      };
+
+      test("should retry if sending fails with a server error", async () => {
+        const fetch = sequenceFetch(setFetch({ status: 500 }), setFetch());
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+          sendRetries: { retries: 2, initialDelay: 1 },
+        });
+
+        await expect(inngest.send(testEvent)).resolves.toMatchObject({
+          ids: ["test-id"],
+        });
+
+        expect(fetch).toHaveBeenCalledTimes(2);
+      });
+
+      test("should retry if sending fails with a network error", async () => {
+        const fetch = sequenceFetch(
+          () => Promise.reject(new Error("ECONNRESET")),
+          setFetch()
+        );
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+          sendRetries: { retries: 1, initialDelay: 1 },
+        });
+
+        await expect(inngest.send(testEvent)).resolves.toMatchObject({
+          ids: ["test-id"],
+        });
+
+        expect(fetch).toHaveBeenCalledTimes(2);
+      });
+
+      test("should send the same event IDs on every attempt", async () => {
+        const fetch = sequenceFetch(setFetch({ status: 503 }), setFetch());
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+          sendRetries: { retries: 1, initialDelay: 1 },
+        });
+
+        await inngest.send([testEvent, { ...testEvent, id: "my-id" }]);
+
+        const [first, second] = getSentPayloads(fetch);
+        expect(first?.[0]?.id).toEqual(expect.any(String));
+        expect(first?.[1]?.id).toEqual("my-id");
+        expect(second).toEqual(first);
+      });
+
+      test("should not add event IDs if retries are not enabled", async () => {
+        const fetch = setFetch();
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+        });
+
+        await inngest.send(testEvent);
+
+        const [sent] = getSentPayloads(fetch);
+        expect(sent?.[0]?.id).toBeUndefined();
+      });
+
+      test("should honor a retry-after header", async () => {
+        const fetch = sequenceFetch(
+          withHeaders(setFetch({ status: 429 }), { "retry-after": "0" }),
+          setFetch()
+        );
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+          // Long enough that the test would time out if used
+          sendRetries: { retries: 1, initialDelay: 60_000 },
+        });
+
+        await expect(inngest.send(testEvent)).resolves.toMatchObject({
+          ids: ["test-id"],
+        });
+
+        expect(fetch).toHaveBeenCalledTimes(2);
+      });
+
+      test("should not retry if sending fails with a client error", async () => {
+        const fetch = setFetch({ status: 400 });
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+          sendRetries: { retries: 3, initialDelay: 1 },
+        });
+
+        await expect(inngest.send(testEvent)).rejects.toThrowError(
+          "Cannot process event payload"
+        );
+
+        expect(fetch).toHaveBeenCalledTimes(1);
+      });
+
+      test("should throw the last error once retries are exhausted", async () => {
+        const fetch = setFetch({ status: 500 });
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+          sendRetries: { retries: 2, initialDelay: 1 },
+        });
+
+        await expect(inngest.send(testEvent)).rejects.toThrowError("500");
+
+        expect(fetch).toHaveBeenCalledTimes(3);
+      });
+    });
+
+    describe("sendChunking", () => {
+      const getSentPayloads = (fetch: typeof global.fetch) => {
+        return (
+          fetch as jest.Mock<unknown, [string, { body: string }]>
+        ).mock.calls.map(([, opts]) => JSON.parse(opts.body) as EventPayload[]);
+      };
+
+      const events = Array.from({ length: 5 }, (_, i) => ({
+        ...testEvent,
+        data: { i },
+      }));
+
+      test("should send events in one request if within limits", async () => {
+        const fetch = setFetch();
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+        });
+
+        await expect(inngest.send(events)).resolves.toMatchObject({
+          ids: events.map(() => "test-id"),
+        });
+
+        expect(fetch).toHaveBeenCalledTimes(1);
+      });
+
+      test("should split events by count", async () => {
+        const fetch = setFetch();
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+          sendChunking: { maxEvents: 2 },
+        });
+
+        await inngest.send(events);
+
+        expect(
+          getSentPayloads(fetch).map((chunk) =>
+            chunk.map(({ data }) => (data as { i: number }).i)
+          )
+        ).toEqual([[0, 1], [2, 3], [4]]);
+      });
+
+      test("should split events by size", async () => {
+        const fetch = setFetch();
+        const eventBytes = JSON.stringify(events[0]).length;
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+          // Fits two events, but not three
+          sendChunking: { maxBytes: eventBytes * 3 },
+        });
+
+        await inngest.send(events);
+
+        const chunks = getSentPayloads(fetch);
+        expect(chunks.map((chunk) => chunk.length)).toEqual([2, 2, 1]);
+        chunks.forEach((chunk) => {
+          expect(JSON.stringify(chunk).length).toBeLessThanOrEqual(
+            eventBytes * 3
+          );
+        });
+      });
+
+      test("should send an event larger than the max size on its own", async () => {
+        const fetch = setFetch();
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+          sendChunking: { maxBytes: 1 },
+        });
+
+        await inngest.send(events.slice(0, 2));
+
+        expect(getSentPayloads(fetch).map((chunk) => chunk.length)).toEqual([
+          1, 1,
+        ]);
+      });
+
+      test("should merge IDs in the order events were given", async () => {
+        const fetch = jest.fn((url: string, opts: { body: string }) => {
+          const payloads = JSON.parse(opts.body) as EventPayload[];
+
+          return setFetch({
+            ids: payloads.map(({ data }) => `id-${(data as { i: number }).i}`),
+          })(url, opts);
+        }) as unknown as typeof global.fetch;
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+          sendChunking: { maxEvents: 2, concurrency: 2 },
+        });
+
+        await expect(inngest.send(events)).resolves.toMatchObject({
+          ids: ["id-0", "id-1", "id-2", "id-3", "id-4"],
+        });
+      });
+
+      test("should limit the number of requests in progress", async () => {
+        let inProgress = 0;
+        let maxInProgress = 0;
+
+        const fetch = jest.fn(async (url: string, opts: { body: string }) => {
+          inProgress++;
+          maxInProgress = Math.max(maxInProgress, inProgress);
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          inProgress--;
+
+          return setFetch()(url, opts);
+        }) as unknown as typeof global.fetch;
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+          sendChunking: { maxEvents: 1, concurrency: 2 },
+        });
+
+        await inngest.send(events);
+
+        expect(fetch).toHaveBeenCalledTimes(5);
+        expect(maxInProgress).toEqual(2);
+      });
+
+      test("should throw a SendEventPartialError if some requests fail", async () => {
+        const fetch = jest.fn((url: string, opts: { body: string }) => {
+          const payloads = JSON.parse(opts.body) as EventPayload[];
+          const fail = payloads.some(
+            ({ data }) => (data as { i: number }).i === 2
+          );
+
+          return setFetch(fail ? { status: 400, error: "Test Error" } : {})(
+            url,
+            opts
+          );
+        }) as unknown as typeof global.fetch;
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+          sendChunking: { maxEvents: 2 },
+        });
+
+        const err = await inngest.send(events).catch((err: unknown) => err);
+
+        expect(err).toBeInstanceOf(SendEventPartialError);
+        expect((err as Error).message).toEqual(
+          "Failed to send 2 of 5 events in 1 request: Inngest API Error: 400 Test Error"
+        );
+        expect(err).toMatchObject({
+          ids: ["test-id", "test-id", "test-id"],
+          failures: [{ payloads: events.slice(2, 4) }],
+        });
+      });
+
+      test("should throw the original error if there is only one request", async () => {
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch: setFetch({ status: 400, error: "Test Error" }),
+        });
+
+        const err = await inngest.send(events).catch((err: unknown) => err);
+
+        expect(err).not.toBeInstanceOf(SendEventPartialError);
+        expect((err as Error).message).toEqual(
+          "Inngest API Error: 400 Test Error"
+        );
+      });
+    });
+
+    describe("sendBuffer", () => {
+      const getSentPayloads = (fetch: typeof global.fetch) => {
+        return (
+          fetch as jest.Mock<unknown, [string, { body: string }]>
+        ).mock.calls.map(([, opts]) => JSON.parse(opts.body) as EventPayload[]);
+      };
+
+      /**
+       * A fetch that returns an ID for each event based on its `data.i`.
+       */
+      const createIdFetch = () => {
+        return jest.fn((url: string, opts: { body: string }) => {
+          const payloads = JSON.parse(opts.body) as EventPayload[];
+
+          return setFetch({
+            ids: payloads.map(({ data }) => `id-${(data as { i: number }).i}`),
+          })(url, opts);
+        }) as unknown as typeof global.fetch;
+      };
+
+      const event = (i: number) => ({ ...testEvent, data: { i } });
+
+      test("should send every call in its own request if not enabled", async () => {
+        const fetch = setFetch();
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+        });
+
+        await Promise.all([inngest.send(event(0)), inngest.send(event(1))]);
+
+        expect(fetch).toHaveBeenCalledTimes(2);
+      });
+
+      test("should coalesce calls made close together into one request", async () => {
+        const fetch = createIdFetch();
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+          sendBuffer: true,
+        });
+
+        const results = await Promise.all([
+          inngest.send(event(0)),
+          inngest.send([event(1), event(2)]),
+          inngest.send(event(3)),
+        ]);
+
+        expect(fetch).toHaveBeenCalledTimes(1);
+        expect(
+          getSentPayloads(fetch).map((chunk) =>
+            chunk.map(({ data }) => (data as { i: number }).i)
+          )
+        ).toEqual([[0, 1, 2, 3]]);
+        expect(results.map(({ ids }) => ids)).toEqual([
+          ["id-0"],
+          ["id-1", "id-2"],
+          ["id-3"],
+        ]);
+      });
+
+      test("should send immediately once maxEvents are buffered", async () => {
+        const fetch = createIdFetch();
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+          sendBuffer: { maxWait: 60_000, maxEvents: 2 },
+        });
+
+        await expect(
+          Promise.all([inngest.send(event(0)), inngest.send(event(1))])
+        ).resolves.toEqual([{ ids: ["id-0"] }, { ids: ["id-1"] }]);
+
+        expect(fetch).toHaveBeenCalledTimes(1);
+      });
+
+      test("should send buffered events when flushed", async () => {
+        const fetch = createIdFetch();
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+          sendBuffer: { maxWait: 60_000 },
+        });
+
+        const sent = inngest.send(event(0));
+        await inngest.flush();
+
+        expect(fetch).toHaveBeenCalledTimes(1);
+        await expect(sent).resolves.toEqual({ ids: ["id-0"] });
+      });
+
+      test("should wait for events already being sent when flushed", async () => {
+        let resolveFetch: (() => void) | undefined;
+
+        const fetch = jest.fn(async (url: string, opts: { body: string }) => {
+          await new Promise<void>((resolve) => (resolveFetch = resolve));
+          return setFetch()(url, opts);
+        }) as unknown as typeof global.fetch;
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+          sendBuffer: { maxEvents: 1 },
+        });
+
+        const sent = inngest.send(event(0));
+
+        let flushed = false;
+        const flushing = inngest.flush().then(() => (flushed = true));
+
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(flushed).toBe(false);
+
+        resolveFetch?.();
+        await flushing;
+        await expect(sent).resolves.toEqual({ ids: ["test-id"] });
+      });
+
+      test("should reject every call if sending fails", async () => {
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch: setFetch({ status: 400, error: "Test Error" }),
+          sendBuffer: true,
+        });
+
+        const results = await Promise.allSettled([
+          inngest.send(event(0)),
+          inngest.send(event(1)),
+        ]);
+
+        expect(results.map(({ status }) => status)).toEqual([
+          "rejected",
+          "rejected",
+        ]);
+      });
+
+      test("should only reject calls whose events failed to send", async () => {
+        const fetch = jest.fn((url: string, opts: { body: string }) => {
+          const payloads = JSON.parse(opts.body) as EventPayload[];
+          const fail = payloads.some(
+            ({ data }) => (data as { i: number }).i === 1
+          );
+
+          return (
+            fail
+              ? setFetch({ status: 400, error: "Test Error" })
+              : createIdFetch()
+          )(url, opts);
+        }) as unknown as typeof global.fetch;
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+          sendBuffer: true,
+          sendChunking: { maxEvents: 1 },
+        });
+
+        const results = await Promise.allSettled([
+          inngest.send(event(0)),
+          inngest.send([event(1), event(2)]),
+          inngest.send(event(3)),
+        ]);
+
+        expect(results).toMatchObject([
+          { status: "fulfilled", value: { ids: ["id-0"] } },
+          {
+            status: "rejected",
+            reason: {
+              ids: ["id-2"],
+              failures: [{ payloads: [{ data: { i: 1 } }] }],
+            },
+          },
+          { status: "fulfilled", value: { ids: ["id-3"] } },
+        ]);
+        expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(
+          SendEventPartialError
+        );
+      });
+
+      test("should do nothing when flushed if not enabled", async () => {
+        const fetch = setFetch();
+
+        const inngest = createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+        });
+
+        await inngest.flush();
+
+        expect(fetch).not.toHaveBeenCalled();
+      });
+    });
   });
 
   describe("types", () => {
@@ -5,6 +5,7 @@ import {
   defaultInngestEventBaseUrl,
   dummyEventKey,
   envKeys,
+  headerKeys,
   logPrefix,
 } from "../helpers/consts";
 import { devServerAvailable, devServerUrl } from "../helpers/devserver";
@@ -17,7 +18,12 @@ import {
 } from "../helpers/env";
 import { fixEventKeyMissingSteps, prettyError } from "../helpers/errors";
 import { type Jsonify } from "../helpers/jsonify";
-import { stringify } from "../helpers/strings";
+import { getRetryDelay, parseRetryAfter } from "../helpers/net";
+import {
+  createDeferredPromise,
+  createTimeoutPromise,
+} from "../helpers/promises";
+import { createNonce, stringify } from "../helpers/strings";
 import {
   type AsArray,
   type IsNever,
@@ -26,7 +32,13 @@ import {
   type SingleOrArray,
   type WithoutInternal,
 } from "../helpers/types";
-import { DefaultLogger, ProxyLogger, type Logger } from "../middleware/logger";
+import {
+  DefaultLogger,
+  JsonLogger,
+  ProxyLogger,
+  runWithLogMetadata,
+  type Logger,
+} from "../middleware/logger";
 import {
   sendEventResponseSchema,
   type ClientOptions,
@@ -36,7 +48,12 @@ import {
   type Handler,
   type InvokeTargetFunctionDefinition,
   type SendEventOutput,
+  type SendBufferOptions,
+  type SendChunkingOptions,
+  type SendEventOptions,
   type SendEventResponse,
+  type SendRetryOptions,
+  type StepRunContext,
   type TriggersFromClient,
 } from "../types";
 import { type EventSchemas } from "./EventSchemas";
@@ -49,8 +66,14 @@ import {
   type MiddlewareOptions,
   type MiddlewareRegisterFn,
   type MiddlewareRegisterReturn,
+  type MiddlewareRunInputChanges,
   type SendEventHookStack,
 } from "./InngestMiddleware";
+import { type OutboxAdapter } from "./Outbox";
+import {
+  SendEventPartialError,
+  type SendEventFailure,
+} from "./SendEventPartialError";
 
 /**
  * Capturing the global type of fetch so that we can reliably access it below.
@@ -125,6 +148,68 @@ export class Inngest<TClientOpts extends ClientOptions = ClientOptions> {
 
   private readonly logger: Logger;
 
+  /**
+   * The event schemas given to this client, used to validate events at
+   * runtime if `validateEvents` is enabled.
+   */
+  private readonly schemas:
+    | EventSchemas<Record<string, EventPayload>>
+    | undefined;
+
+  /**
+   * Whether events should be validated against `schemas` at runtime when
+   * sending or receiving them.
+   */
+  private readonly validateEvents: boolean;
+
+  /**
+   * How sending events should be retried if a request fails.
+   */
+  private readonly sendRetries: Required<SendRetryOptions>;
+
+  /**
+   * Limits used to split events being sent across multiple requests.
+   */
+  private readonly sendChunking: Required<SendChunkingOptions>;
+
+  /**
+   * How events being sent should be buffered, if at all.
+   */
+  private readonly sendBuffer: Required<SendBufferOptions> | undefined;
+
+  /**
+   * Events waiting to be sent by the next flush of the send buffer, along with
+   * the promise for the `send()` call that buffered them.
+   */
+  private bufferedSends: BufferedSend[] = [];
+
+  /**
+   * The timer that will flush the send buffer, if one is running.
+   */
+  private sendBufferTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * Flushes of the send buffer that are still sending events.
+   */
+  private pendingFlushes = new Set<Promise<void>>();
+
+  /**
+   * Calls to `send()` that are still preparing their events to be buffered.
+   */
+  private preparingSends = new Set<Promise<void>>();
+
+  /**
+   * A flush of the send buffer that is waiting for `send()` calls to finish
+   * preparing before it takes the buffered events, shared by every call to
+   * `flush()` made in the meantime.
+   */
+  private takingBuffer: Promise<void> | undefined;
+
+  /**
+   * The outbox events are written to when sent as part of a transaction.
+   */
+  private readonly outbox: OutboxAdapter | undefined;
+
   /**
    * A promise that resolves when the middleware stack has been initialized and
    * the client is ready to be used.
@@ -172,6 +257,12 @@ export class Inngest<TClientOpts extends ClientOptions = ClientOptions> {
     logger = new DefaultLogger(),
     middleware,
     isDev,
+    schemas,
+    validateEvents = false,
+    sendRetries = 0,
+    sendChunking,
+    sendBuffer = false,
+    outbox,
   }: TClientOpts) {
     if (!id) {
       // TODO PrettyError
@@ -213,6 +304,29 @@ export class Inngest<TClientOpts extends ClientOptions = ClientOptions> {
     });
 
     this.logger = logger;
+    this.schemas = schemas;
+    this.validateEvents = validateEvents;
+    this.sendRetries = {
+      initialDelay: 200,
+      maxDelay: 10000,
+      ...(typeof sendRetries === "number"
+        ? { retries: sendRetries }
+        : sendRetries),
+    };
+    this.sendChunking = {
+      maxBytes: 256 * 1024,
+      maxEvents: 5000,
+      concurrency: 5,
+      ...sendChunking,
+    };
+    this.sendBuffer = sendBuffer
+      ? {
+          maxWait: 10,
+          maxEvents: 100,
+          ...(typeof sendBuffer === "object" ? sendBuffer : {}),
+        }
+      : undefined;
+    this.outbox = outbox;
 
     this.middleware = this.initializeMiddleware([
       ...builtInMiddleware,
@@ -347,10 +461,63 @@ export class Inngest<TClientOpts extends ClientOptions = ClientOptions> {
    *   }>(),
    * });
    * ```
+   *
+   * If the client has an `outbox`, events can instead be written to it as part
+   * of a database transaction by passing the `transaction`. They are then
+   * sent to Inngest later by an `OutboxRelay`.
+   *
+   * ```ts
+   * await db.transaction(async (trx) => {
+   *   await trx("users").insert(user);
+   *   await inngest.send(
+   *     { name: "app/user.created", data: { id: user.id } },
+   *     { transaction: trx }
+   *   );
+   * });
+   * ```
    */
   public async send<Payload extends SendEventPayload<GetEvents<this>>>(
-    payload: Payload
+    payload: Payload,
+    options?: SendEventOptions
   ): Promise<SendEventOutput<TClientOpts>> {
+    /**
+     * Track this call until its events have been buffered or it has finished,
+     * so that `flush()` can wait for events that are about to be buffered.
+     */
+    const { promise, resolve } = createDeferredPromise<void>();
+    this.preparingSends.add(promise);
+
+    const onPrepared = () => {
+      this.preparingSends.delete(promise);
+      resolve();
+    };
+
+    try {
+      return await this._send(payload, options, onPrepared);
+    } finally {
+      onPrepared();
+    }
+  }
+
+  private async _send<Payload extends SendEventPayload<GetEvents<this>>>(
+    payload: Payload,
+    options: SendEventOptions | undefined,
+    onPrepared: () => void
+  ): Promise<SendEventOutput<TClientOpts>> {
+    const toOutbox = typeof options?.transaction !== "undefined";
+
+    if (toOutbox && !this.outbox) {
+      throw new Error(
+        prettyError({
+          whatHappened: "Failed to send event",
+          consequences: "Your event or events were not sent to Inngest.",
+          why: "A transaction was given, but the client has no outbox to write events to.",
+          toFixNow:
+            "Pass an `outbox` when creating your Inngest client, or remove the `transaction` option.",
+        })
+      );
+    }
+
     const hooks = await getHookStack(
       this.middleware,
       "onSendEvent",
@@ -373,6 +540,22 @@ export class Inngest<TClientOpts extends ClientOptions = ClientOptions> {
         ? ([payload] as [EventPayload])
         : [];
 
+    /**
+     * Validate events before middleware has a chance to transform them, as
+     * middleware may change their shape, for example by encrypting data.
+     */
+    if (this.validateEvents) {
+      this.schemas?.["validate"](payloads);
+    }
+
+    /**
+     * Add any deterministic IDs before middleware has a chance to transform
+     * events, so that IDs are derived from the events as they were given.
+     */
+    if (this.schemas) {
+      payloads = this.schemas["addEventIds"](payloads);
+    }
+
     const inputChanges = await hooks.transformInput?.({
       payloads: [...payloads],
     });
@@ -392,6 +575,20 @@ export class Inngest<TClientOpts extends ClientOptions = ClientOptions> {
       };
     });
 
+    /**
+     * If we're going to retry sending, make sure every event has an ID before
+     * the first attempt so that Inngest can deduplicate any events that were
+     * received during a request that looked like it failed.
+     *
+     * The same applies to events written to an outbox, which may be sent more
+     * than once by a relay.
+     */
+    if (this.sendRetries.retries > 0 || toOutbox) {
+      payloads = payloads.map((p) => {
+        return p.id ? p : { ...p, id: createNonce() };
+      });
+    }
+
     const applyHookToOutput = async (
       arg: Parameters<NonNullable<SendEventHookStack["transformOutput"]>>[0]
     ): Promise<SendEventOutput<TClientOpts>> => {
@@ -423,6 +620,49 @@ export class Inngest<TClientOpts extends ClientOptions = ClientOptions> {
       return await applyHookToOutput({ result: { ids: [] } });
     }
 
+    if (toOutbox) {
+      await this.outbox?.write(payloads, options?.transaction);
+
+      return await applyHookToOutput({
+        result: { ids: payloads.map(({ id }) => id as string) },
+      });
+    }
+
+    const url = await this.getSendEventUrl();
+
+    let ids: string[];
+
+    if (this.sendBuffer) {
+      const buffered = this.bufferSend(url, payloads);
+      onPrepared();
+      ids = await buffered;
+    } else {
+      ids = await this.sendChunks(url, this.chunkPayloads(payloads));
+    }
+
+    return await applyHookToOutput({ result: { ids } });
+  }
+
+  /**
+   * Send payloads that have already been prepared by `send()`, such as those
+   * read from an outbox, without passing them through middleware again.
+   *
+   * Used by `OutboxRelay`.
+   */
+  private async sendPrepared(
+    payloads: EventPayload[],
+    retryOptions?: Required<SendRetryOptions>
+  ): Promise<string[]> {
+    const url = await this.getSendEventUrl();
+
+    return this.sendChunks(url, this.chunkPayloads(payloads), retryOptions);
+  }
+
+  /**
+   * Get the URL to send events to, checking that an event key is set if it
+   * will be needed.
+   */
+  private async getSendEventUrl(): Promise<string> {
     // When sending events, check if the dev server is available.  If so, use the
     // dev server.
     let url = this.sendEventUrl.href;
@@ -460,13 +700,283 @@ export class Inngest<TClientOpts extends ClientOptions = ClientOptions> {
       }
     }
 
-    // We don't need to do fallback auth here because this uses event keys and
-    // not signing keys
-    const response = await this.fetch(url, {
-      method: "POST",
-      body: stringify(payloads),
-      headers: { ...this.headers },
-    });
+    return url;
+  }
+
+  /**
+   * Send every event currently buffered by this client's `sendBuffer` option
+   * immediately, including those from `send()` calls that are still being
+   * prepared, resolving once they and any buffered events already being sent
+   * have finished sending.
+   *
+   * Use this in serverless environments before the process is shut down to
+   * make sure no buffered events are lost. Errors sending events are not
+   * thrown here, but are instead thrown by the `send()` calls that buffered
+   * them.
+   *
+   * If `sendBuffer` is not enabled, this does nothing.
+   */
+  public async flush(): Promise<void> {
+    this.takingBuffer ??= this.takeBuffer();
+    await this.takingBuffer;
+
+    await Promise.all(this.pendingFlushes);
+  }
+
+  /**
+   * Wait for any `send()` calls currently being prepared, then start sending
+   * every buffered event.
+   *
+   * Only the calls being prepared when the flush starts are waited for, so
+   * that a steady stream of new calls can't hold up the flush.
+   */
+  private async takeBuffer(): Promise<void> {
+    await Promise.all([...this.preparingSends]);
+
+    this.takingBuffer = undefined;
+    clearTimeout(this.sendBufferTimeout);
+    this.sendBufferTimeout = undefined;
+
+    const sends = this.bufferedSends;
+    this.bufferedSends = [];
+
+    if (!sends.length) {
+      return;
+    }
+
+    const sendsByUrl = sends.reduce((acc, send) => {
+      return acc.set(send.url, [...(acc.get(send.url) ?? []), send]);
+    }, new Map<string, typeof sends>());
+
+    const flushing = Promise.all(
+      Array.from(sendsByUrl, async ([url, sends]) => {
+        try {
+          const ids = await this.sendChunks(
+            url,
+            this.chunkPayloads(sends.flatMap(({ payloads }) => payloads))
+          );
+
+          let offset = 0;
+          sends.forEach(({ payloads, deferred }) => {
+            deferred.resolve(ids.slice(offset, (offset += payloads.length)));
+          });
+        } catch (err) {
+          settleFailedSends(sends, err);
+        }
+      })
+    ).then(() => undefined);
+
+    this.pendingFlushes.add(flushing);
+    void flushing.finally(() => this.pendingFlushes.delete(flushing));
+  }
+
+  /**
+   * Add the given payloads to the send buffer, resolving with their IDs once
+   * the buffer has been flushed.
+   */
+  private bufferSend(url: string, payloads: EventPayload[]): Promise<string[]> {
+    const { maxWait, maxEvents } = this
+      .sendBuffer as Required<SendBufferOptions>;
+    const deferred = createDeferredPromise<string[]>();
+
+    this.bufferedSends.push({ url, payloads, deferred });
+
+    const bufferedCount = this.bufferedSends.reduce((acc, send) => {
+      return acc + send.payloads.length;
+    }, 0);
+
+    if (bufferedCount >= maxEvents) {
+      void this.flush();
+    } else if (!this.sendBufferTimeout) {
+      this.sendBufferTimeout = setTimeout(() => void this.flush(), maxWait);
+    }
+
+    return deferred.promise;
+  }
+
+  /**
+   * Split the given payloads into chunks that each fit within this client's
+   * `sendChunking` limits, preserving their order.
+   */
+  private chunkPayloads(payloads: EventPayload[]): EventPayload[][] {
+    const { maxBytes, maxEvents } = this.sendChunking;
+    const encoder = new TextEncoder();
+
+    const chunks: EventPayload[][] = [];
+    let chunk: EventPayload[] = [];
+
+    // Account for the surrounding `[]` of the JSON array
+    let chunkBytes = 2;
+
+    for (const payload of payloads) {
+      // Account for the `,` separating this payload from the previous one
+      const bytes = encoder.encode(stringify(payload)).length + 1;
+
+      if (
+        chunk.length &&
+        (chunk.length >= maxEvents || chunkBytes + bytes > maxBytes)
+      ) {
+        chunks.push(chunk);
+        chunk = [];
+        chunkBytes = 2;
+      }
+
+      chunk.push(payload);
+      chunkBytes += bytes;
+    }
+
+    chunks.push(chunk);
+
+    return chunks;
+  }
+
+  /**
+   * Send each chunk of payloads in its own request, with no more than this
+   * client's `sendChunking.concurrency` requests in progress at once.
+   *
+   * Returns the IDs of all sent events in the order they were given. If only
+   * some chunks fail, a `SendEventPartialError` is thrown so that the IDs of
+   * the events that were sent aren't lost.
+   */
+  private async sendChunks(
+    url: string,
+    chunks: EventPayload[][],
+    retryOptions?: Required<SendRetryOptions>
+  ): Promise<string[]> {
+    if (chunks.length === 1) {
+      return this.sendEventsWithRetries(
+        url,
+        chunks[0] as EventPayload[],
+        retryOptions
+      );
+    }
+
+    const results: (
+      | { ok: true; ids: string[] }
+      | { ok: false; payloads: EventPayload[]; error: unknown }
+    )[] = [];
+
+    let next = 0;
+
+    const worker = async () => {
+      while (next < chunks.length) {
+        const i = next++;
+        const payloads = chunks[i] as EventPayload[];
+
+        results[i] = await this.sendEventsWithRetries(
+          url,
+          payloads,
+          retryOptions
+        ).then(
+          (ids) => ({ ok: true as const, ids }),
+          (error: unknown) => ({ ok: false as const, payloads, error })
+        );
+      }
+    };
+
+    await Promise.all(
+      Array.from(
+        {
+          length: Math.min(this.sendChunking.concurrency, chunks.length),
+        },
+        worker
+      )
+    );
+
+    const ids: string[] = [];
+    const failures: SendEventFailure[] = [];
+
+    for (const result of results) {
+      if (result.ok) {
+        ids.push(...result.ids);
+      } else {
+        failures.push({ payloads: result.payloads, error: result.error });
+      }
+    }
+
+    if (failures.length) {
+      throw new SendEventPartialError({ ids, failures });
+    }
+
+    return ids;
+  }
+
+  /**
+   * Send the given payloads to Inngest, retrying according to the given
+   * options, or this client's `sendRetries` option if none are given, if the
+   * request fails in a way that can be retried.
+   *
+   * Returns the IDs of the sent events.
+   */
+  private async sendEventsWithRetries(
+    url: string,
+    payloads: EventPayload[],
+    { retries, initialDelay, maxDelay } = this.sendRetries
+  ): Promise<string[]> {
+    for (let attempt = 0; ; attempt++) {
+      const result = await this.sendEvents(url, payloads);
+
+      if (result.ok) {
+        return result.ids;
+      }
+
+      if (!result.retriable || attempt >= retries) {
+        throw result.error;
+      }
+
+      await createTimeoutPromise(
+        getRetryDelay({
+          attempt,
+          initialDelay,
+          maxDelay,
+          retryAfter: result.retryAfter,
+        })
+      ).start();
+    }
+  }
+
+  /**
+   * Send the given payloads to Inngest in a single request, returning either
+   * the IDs of the sent events or the error that occurred and whether the
+   * request can be retried.
+   */
+  private async sendEvents(
+    url: string,
+    payloads: EventPayload[]
+  ): Promise<
+    | { ok: true; ids: string[] }
+    | {
+        ok: false;
+        error: unknown;
+        retriable: boolean;
+        retryAfter?: number | Date | void;
+      }
+  > {
+    let response: globalThis.Response;
+
+    try {
+      // We don't need to do fallback auth here because this uses event keys
+      // and not signing keys
+      response = await this.fetch(url, {
+        method: "POST",
+        body: stringify(payloads),
+        headers: { ...this.headers },
+      });
+    } catch (error) {
+      // A network error, so we can always retry
+      return { ok: false, error, retriable: true };
+    }
+
+    const failure = async (foundErr?: string) => {
+      return {
+        ok: false as const,
+        error: await this.getResponseError(response, foundErr),
+        retriable: response.status === 429 || response.status >= 500,
+        retryAfter: parseRetryAfter(
+          response.headers?.get(headerKeys.RetryAfter) ?? undefined
+        ),
+      };
+    };
 
     let body: SendEventResponse | undefined;
 
@@ -474,14 +984,14 @@ export class Inngest<TClientOpts extends ClientOptions = ClientOptions> {
       const rawBody: unknown = await response.json();
       body = await sendEventResponseSchema.parseAsync(rawBody);
     } catch (err) {
-      throw await this.getResponseError(response);
+      return await failure();
     }
 
     if (body.status / 100 !== 2 || body.error) {
-      throw await this.getResponseError(response, body.error);
+      return await failure(body.error);
     }
 
-    return await applyHookToOutput({ result: { ids: body.ids } });
+    return { ok: true, ids: body.ids };
   }
 
   public createFunction: Inngest.CreateFunction<this> = (
@@ -548,6 +1058,76 @@ export class Inngest<TClientOpts extends ClientOptions = ClientOptions> {
   }
 }
 
+/**
+ * A call to `send()` whose events are waiting in the send buffer.
+ */
+interface BufferedSend {
+  url: string;
+  payloads: EventPayload[];
+  deferred: ReturnType<typeof createDeferredPromise<string[]>>;
+}
+
+/**
+ * Settle each of the given buffered `send()` calls after the flush sending
+ * their events failed with `err`.
+ *
+ * If only some requests failed, calls whose events were all sent are resolved
+ * with their IDs, so that they aren't retried and the events duplicated. The
+ * rest are rejected with their own failures.
+ */
+const settleFailedSends = (sends: BufferedSend[], err: unknown): void => {
+  if (!(err instanceof SendEventPartialError)) {
+    sends.forEach(({ deferred }) => deferred.reject(err));
+    return;
+  }
+
+  const failed = new Set(err.failures.flatMap(({ payloads }) => payloads));
+  let offset = 0;
+
+  sends.forEach(({ payloads, deferred }) => {
+    const ids = payloads
+      .filter((payload) => !failed.has(payload))
+      .map(() => err.ids[offset++] as string);
+
+    const own = new Set(payloads);
+    const failures = err.failures
+      .map(({ payloads, error }) => ({
+        payloads: payloads.filter((payload) => own.has(payload)),
+        error,
+      }))
+      .filter(({ payloads }) => payloads.length);
+
+    if (!failures.length) {
+      deferred.resolve(ids);
+    } else if (!ids.length && failures.length === 1) {
+      deferred.reject(failures[0]?.error);
+    } else {
+      deferred.reject(new SendEventPartialError({ ids, failures }));
+    }
+  });
+};
+
+/**
+ * Create a child of the given `logger` with the given `metadata` if it
+ * supports child loggers, otherwise returning the logger as-is.
+ */
+const createChildLogger = (
+  logger: Logger,
+  metadata: Record<string, unknown>
+): Logger => {
+  try {
+    if ("child" in logger) {
+      type ChildLoggerFn = (metadata: Record<string, unknown>) => Logger;
+      return (logger.child as ChildLoggerFn)(metadata);
+    }
+  } catch (err) {
+    console.error('failed to create "childLogger" with error: ', err);
+    // no-op
+  }
+
+  return logger;
+};
+
 /**
  * Default middleware that is included in every client, placed after the user's
  * middleware on the client but before function-level middleware.
@@ -576,23 +1156,11 @@ export const builtInMiddleware = (<T extends InngestMiddleware.Stack>(
             runID: ctx.runId,
             eventName: ctx.event.name,
             functionName: arg.fn.name,
+            functionId: arg.fn.id(client.id),
+            attempt: ctx.attempt,
           };
 
-          let providedLogger: Logger = client["logger"];
-          // create a child logger if the provided logger has child logger implementation
-          try {
-            if ("child" in providedLogger) {
-              type ChildLoggerFn = (
-                metadata: Record<string, unknown>
-              ) => Logger;
-              providedLogger = (providedLogger.child as ChildLoggerFn)(
-                metadata
-              );
-            }
-          } catch (err) {
-            console.error('failed to create "childLogger" with error: ', err);
-            // no-op
-          }
+          const providedLogger = createChildLogger(client["logger"], metadata);
           const logger = new ProxyLogger(providedLogger);
 
           return {
@@ -623,6 +1191,52 @@ export const builtInMiddleware = (<T extends InngestMiddleware.Stack>(
       };
     },
   }),
+  new InngestMiddleware({
+    name: "Inngest: JSON logger step context",
+    init({ client }) {
+      return {
+        onFunctionRun() {
+          return {
+            // Typed loosely, so that replacing `step` doesn't change the types
+            // of the function's own step tools.
+            transformInput({ ctx }): MiddlewareRunInputChanges | undefined {
+              if (!(client["logger"] instanceof JsonLogger)) {
+                return;
+              }
+
+              const { step } = ctx;
+
+              return {
+                ctx: {
+                  step: {
+                    ...step,
+                    // Add the step's ID to anything logged while it runs.
+                    run: (
+                      idOrOptions: Parameters<typeof step.run>[0],
+                      fn: (runCtx: StepRunContext) => unknown,
+                      opts?: Parameters<typeof step.run>[2]
+                    ) => {
+                      const stepId =
+                        typeof idOrOptions === "string"
+                          ? idOrOptions
+                          : idOrOptions.id;
+
+                      return step.run(
+                        idOrOptions,
+                        (runCtx) =>
+                          runWithLogMetadata({ stepId }, () => fn(runCtx)),
+                        opts
+                      );
+                    },
+                  },
+                },
+              };
+            },
+          };
+        },
+      };
+    },
+  }),
 ]);
 
 /**
@@ -1,6 +1,5 @@
 import canonicalize from "canonicalize";
 import debug from "debug";
-import { hmac, sha256 } from "hash.js";
 import { z } from "zod";
 import { ServerTiming } from "../helpers/ServerTiming";
 import {
@@ -32,15 +31,18 @@ import {
 import { fetchWithAuthFallback } from "../helpers/net";
 import { runAsPromise } from "../helpers/promises";
 import { createStream } from "../helpers/stream";
-import { hashSigningKey, stringify } from "../helpers/strings";
+import { hashSigningKey, signDataWithKey, stringify } from "../helpers/strings";
 import { type MaybePromise } from "../helpers/types";
 import {
   logLevels,
   type EventPayload,
   type FunctionConfig,
   type InsecureIntrospection,
+  type InsecureReadinessReport,
   type LogLevel,
   type OutgoingOp,
+  type ReadinessCheck,
+  type ReadinessReport,
   type RegisterOptions,
   type RegisterRequest,
   type SecureIntrospection,
@@ -166,6 +168,23 @@ const registerResSchema = z.object({
   error: z.string().default("Successfully registered"),
 });
 
+/**
+ * The format of a signing key, with an optional `signkey-<env>-` prefix
+ * followed by the key itself in hex.
+ */
+const signingKeyRegex = /^(signkey-\w+-)?([0-9a-f]{2})+$/i;
+
+/**
+ * How long to wait for the Inngest API to respond when checking readiness.
+ */
+const readinessTimeout = 5000;
+
+/**
+ * How long to reuse the result of checking whether the Inngest API is
+ * reachable, so that frequent readiness probes don't each make a request.
+ */
+const apiReachableTtl = 30_000;
+
 /**
  * `InngestCommHandler` is a class for handling incoming requests from Inngest (or
  * Inngest's tooling such as the dev server or CLI) and taking appropriate
@@ -262,6 +281,27 @@ export class InngestCommHandler<
    */
   protected _mode: Mode | undefined;
 
+  /**
+   * The functions most recently registered with Inngest by this handler and
+   * the URL they were registered with, used to check whether they're still in
+   * sync when reporting readiness.
+   */
+  private lastRegistration: { url: URL; functions: string } | undefined;
+
+  /**
+   * The most recent check of whether the Inngest API is reachable, shared by
+   * readiness probes until it expires or the URL being checked changes.
+   */
+  private apiReachable:
+    | { url: string; checkedAt: number; check: Promise<ReadinessCheck> }
+    | undefined;
+
+  /**
+   * The timer of the last request made to execute a function, used to show
+   * where time went during that execution when introspecting.
+   */
+  private lastExecutionTimer: ServerTiming | undefined;
+
   /**
    * The localized `fetch` implementation used by this handler.
    */
@@ -559,10 +599,33 @@ export class InngestCommHandler<
           },
         });
 
-      const actionRes = timer.wrap("action", () =>
-        this.handleAction({ actions, timer, getInngestHeaders, reqArgs: args })
+      /**
+       * Aborted if the response is cancelled before it's sent, such as when a
+       * streaming keepalive expires or the run is cancelled, so that any
+       * execution can stop its work.
+       */
+      const abortController = new AbortController();
+
+      const actionRes = timer.wrap("action", (actionTimer) =>
+        this.handleAction({
+          actions,
+          timer: actionTimer,
+          getInngestHeaders,
+          reqArgs: args,
+          signal: abortController.signal,
+        })
       );
 
+      /**
+       * Only executions respond with a version, so keep the timer of the
+       * latest one to be shown when introspecting.
+       */
+      void actionRes.then((res) => {
+        if (typeof res.version === "number") {
+          this.lastExecutionTimer = timer;
+        }
+      });
+
       /**
        * Prepares an action response by merging returned data to provide
        * trailing information such as `Server-Timing` headers.
@@ -597,7 +660,9 @@ export class InngestCommHandler<
         const method = await actions.method("starting streaming response");
 
         if (method === "POST") {
-          const { stream, finalize } = await createStream();
+          const { stream, finalize } = await createStream({
+            onCancel: (reason) => abortController.abort(reason),
+          });
 
           /**
            * Errors are handled by `handleAction` here to ensure that an
@@ -670,11 +735,13 @@ export class InngestCommHandler<
     timer,
     getInngestHeaders,
     reqArgs,
+    signal,
   }: {
     actions: HandlerResponseWithErrors;
     timer: ServerTiming;
     getInngestHeaders: () => Record<string, string>;
     reqArgs: unknown[];
+    signal?: AbortSignal;
   }): Promise<ActionResponse> {
     const assumedMode = getMode({ env: this.env, client: this.client });
 
@@ -741,6 +808,7 @@ export class InngestCommHandler<
           stepId,
           timer,
           reqArgs,
+          signal,
         });
         const stepOutput = await result;
 
@@ -838,16 +906,25 @@ export class InngestCommHandler<
       }
 
       if (method === "GET") {
-        const registerBody = this.registerBody({
-          url: this.reqUrl(url),
-          deployId: null,
-        });
+        const probe = await getQuerystring(
+          "processing readiness request",
+          queryKeys.Probe
+        );
 
         const signature = await actions.headers(
           "checking signature for run request",
           headerKeys.Signature
         );
 
+        if (probe === "ready") {
+          return await this.reportReadiness(signature ?? undefined);
+        }
+
+        const registerBody = this.registerBody({
+          url: this.reqUrl(url),
+          deployId: null,
+        });
+
         let introspection: InsecureIntrospection | SecureIntrospection = {
           extra: {
             is_mode_explicit: this._mode.isExplicit,
@@ -857,6 +934,9 @@ export class InngestCommHandler<
           has_signing_key: Boolean(this.signingKey),
           function_count: registerBody.functions.length,
           mode: this._mode.type,
+          ...(this._mode.type === "dev"
+            ? { last_execution_timings: this.lastExecutionTimer?.getTree() }
+            : {}),
         };
 
         // Only allow secure introspection in Cloud mode, since Dev mode skips
@@ -869,6 +949,7 @@ export class InngestCommHandler<
               ...introspection,
               signing_key_fallback_hash: this.hashedSigningKeyFallback,
               signing_key_hash: this.hashedSigningKey,
+              last_execution_timings: this.lastExecutionTimer?.getTree(),
             };
           } catch {
             // Swallow signature validation error since we'll just return the
@@ -941,12 +1022,14 @@ export class InngestCommHandler<
     data,
     timer,
     reqArgs,
+    signal,
   }: {
     functionId: string;
     stepId: string | null;
     data: unknown;
     timer: ServerTiming;
     reqArgs: unknown[];
+    signal?: AbortSignal;
   }): { version: ExecutionVersion; result: Promise<ExecutionResult> } {
     const fn = this.fns[functionId];
     if (!fn) {
@@ -1012,6 +1095,7 @@ export class InngestCommHandler<
               isFailureHandler: fn.onFailure,
               stepCompletionOrder: ctx?.stack?.stack ?? [],
               reqArgs,
+              signal,
             },
           };
         },
@@ -1047,6 +1131,7 @@ export class InngestCommHandler<
               disableImmediateExecution: ctx?.disable_immediate_execution,
               stepCompletionOrder: ctx?.stack?.stack ?? [],
               reqArgs,
+              signal,
             },
           };
         },
@@ -1186,6 +1271,10 @@ export class InngestCommHandler<
     }
     const { status, error, skipped, modified } = registerResSchema.parse(data);
 
+    if (status >= 200 && status < 300) {
+      this.lastRegistration = { url, functions: stringify(body.functions) };
+    }
+
     // The dev server polls this endpoint to register functions every few
     // seconds, but we only want to log that we've registered functions if
     // the function definitions change.  Therefore, we compare the body sent
@@ -1272,8 +1361,217 @@ export class InngestCommHandler<
     });
   }
 
-  protected signResponse(): string {
-    return "";
+  /**
+   * Sign the given response `body` in the same format as the signatures of
+   * requests from Inngest, so that the caller can verify that the response
+   * came from this app. Returns an empty string if there's no signing key.
+   */
+  protected signResponse(body: string): string {
+    if (!this.signingKey) {
+      return "";
+    }
+
+    const timestamp = Math.round(Date.now() / 1000).toString();
+
+    return `t=${timestamp}&s=${signDataWithKey(
+      body + timestamp,
+      this.signingKey
+    )}`;
+  }
+
+  /**
+   * Check that this handler is ready to receive requests from Inngest.
+   *
+   * A signed report of each check made is returned in Dev mode or if the
+   * request is signed; otherwise, only the status is returned.
+   */
+  private async reportReadiness(
+    signature: string | undefined
+  ): Promise<ActionResponse> {
+    const isDev = this._mode?.isDev ?? false;
+
+    const checks: ReadinessReport["checks"] = {
+      signing_key: this.checkSigningKey(isDev),
+      event_key: this.checkEventKey(isDev),
+      functions_synced: this.checkFunctionsSynced(),
+      api_reachable: await this.checkApiReachable(),
+    };
+
+    const ready = Object.values(checks).every(
+      ({ status }) => status !== "fail"
+    );
+
+    const status: InsecureReadinessReport = {
+      status: ready ? "ready" : "not_ready",
+    };
+
+    // As with introspection, only show which checks failed in Cloud mode if
+    // the request is signed
+    let showChecks = isDev;
+    if (!showChecks) {
+      try {
+        this.validateSignature(signature, "");
+        showChecks = true;
+      } catch {
+        // Swallow signature validation error since we'll just return the
+        // status
+      }
+    }
+
+    if (!showChecks) {
+      return {
+        status: ready ? 200 : 503,
+        body: stringify(status),
+        headers: {
+          "Content-Type": "application/json",
+        },
+        version: undefined,
+      };
+    }
+
+    const report: ReadinessReport = {
+      ...status,
+      mode: isDev ? "dev" : "cloud",
+      checks,
+    };
+
+    const body = stringify(report);
+    const responseSignature = this.signResponse(body);
+
+    return {
+      status: ready ? 200 : 503,
+      body,
+      headers: {
+        "Content-Type": "application/json",
+        ...(responseSignature
+          ? { [headerKeys.Signature]: responseSignature }
+          : {}),
+      },
+      version: undefined,
+    };
+  }
+
+  private checkSigningKey(isDev: boolean): ReadinessCheck {
+    if (!this.signingKey) {
+      return isDev
+        ? { status: "pass", message: "Signing key is not required in Dev mode" }
+        : {
+            status: "fail",
+            message: `No signing key found in client options or ${envKeys.InngestSigningKey} env var`,
+          };
+    }
+
+    const invalidKeys = [
+      ["Signing key", this.signingKey],
+      ["Fallback signing key", this.signingKeyFallback],
+    ].filter(([, key]) => key !== undefined && !signingKeyRegex.test(key));
+
+    if (invalidKeys.length) {
+      return {
+        status: "fail",
+        message: `${invalidKeys
+          .map(([name]) => name)
+          .join(" and ")} not in the expected format`,
+      };
+    }
+
+    return { status: "pass", message: "Signing key is set" };
+  }
+
+  private checkEventKey(isDev: boolean): ReadinessCheck {
+    if (this.client["eventKeySet"]()) {
+      return { status: "pass", message: "Event key is set" };
+    }
+
+    return isDev
+      ? { status: "pass", message: "Event key is not required in Dev mode" }
+      : {
+          status: "fail",
+          message: `No event key found in client options or ${envKeys.InngestEventKey} env var`,
+        };
+  }
+
+  private checkFunctionsSynced(): ReadinessCheck {
+    if (!this.lastRegistration) {
+      return {
+        status: "warn",
+        message: "Functions have not been registered by this process",
+      };
+    }
+
+    const { url, functions } = this.lastRegistration;
+
+    if (stringify(this.configs(url)) !== functions) {
+      return {
+        status: "fail",
+        message: "Functions have changed since they were last registered",
+      };
+    }
+
+    return {
+      status: "pass",
+      message: "Functions match those last registered",
+    };
+  }
+
+  /**
+   * Check whether the Inngest API, or the Dev Server, is reachable, reusing
+   * any check of the same URL made in the last {@link apiReachableTtl}
+   * milliseconds.
+   */
+  private checkApiReachable(): Promise<ReadinessCheck> {
+    const findDevServer = Boolean(this._mode?.isDev && this._mode.isInferred);
+
+    const url = findDevServer
+      ? devServerUrl(devServerHost(this.env))
+      : new URL("/", this._mode?.explicitDevUrl ?? this.inngestRegisterUrl);
+
+    const now = Date.now();
+
+    if (
+      this.apiReachable?.url === url.href &&
+      now - this.apiReachable.checkedAt < apiReachableTtl
+    ) {
+      return this.apiReachable.check;
+    }
+
+    const check = findDevServer
+      ? this.requestDevServer(url)
+      : this.requestApi(url);
+
+    this.apiReachable = { url: url.href, checkedAt: now, check };
+
+    return check;
+  }
+
+  private async requestDevServer(url: URL): Promise<ReadinessCheck> {
+    return (await devServerAvailable(devServerHost(this.env), this.fetch))
+      ? { status: "pass", message: "Dev Server is reachable" }
+      : {
+          status: "fail",
+          message: `Dev Server at ${url.href} is not reachable`,
+        };
+  }
+
+  private async requestApi(url: URL): Promise<ReadinessCheck> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), readinessTimeout);
+
+    try {
+      // Any response at all means that the API is reachable.
+      await this.fetch(url.href, { signal: controller.signal });
+
+      return { status: "pass", message: `${url.href} is reachable` };
+    } catch (err) {
+      return {
+        status: "fail",
+        message: `${url.href} is not reachable${
+          err instanceof Error ? `; ${err.message}` : ""
+        }`,
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
   }
 
   /**
@@ -1353,13 +1651,7 @@ class RequestSignature {
     // raw bytes; it may be pertinent in the future to always parse, then
     // canonicalize the body to ensure it's consistent.
     const encoded = typeof body === "string" ? body : canonicalize(body);
-    // Remove the `/signkey-[test|prod]-/` prefix from our signing key to calculate the HMAC.
-    const key = signingKey.replace(/signkey-\w+-/, "");
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-argument, @typescript-eslint/no-explicit-any
-    const mac = hmac(sha256 as any, key)
-      .update(encoded)
-      .update(this.timestamp)
-      .digest("hex");
+    const mac = signDataWithKey(encoded + this.timestamp, signingKey);
 
     if (mac !== this.signature) {
       // TODO PrettyError
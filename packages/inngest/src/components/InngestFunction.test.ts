@@ -10,6 +10,8 @@ import {
   EventSchemas,
   InngestMiddleware,
   NonRetriableError,
+  RetryAfterError,
+  StepTimeoutError,
   type EventPayload,
 } from "@local";
 import { InngestFunction } from "@local/components/InngestFunction";
@@ -38,7 +40,10 @@ import {
   StepOpCode,
   type ClientOptions,
   type FailureEventPayload,
+  type Handler,
   type OutgoingOp,
+  type StepRunContext,
+  type StepRunOptions,
 } from "@local/types";
 import { fromPartial } from "@total-typescript/shoehorn";
 import { assertType, createClient, runFnWithStack } from "../test/helpers";
@@ -2014,6 +2019,126 @@ describe("runFn", () => {
       }
     );
 
+    testFn(
+      "runs compensations in reverse order when a NonRetriableError is thrown",
+      () => {
+        const A = jest.fn(() => "A");
+        const B = jest.fn(() => "B");
+        const undoA = jest.fn((a: string) => `undo ${a}`);
+        const undoB = jest.fn((b: string) => `undo ${b}`);
+
+        const fn = inngest.createFunction(
+          { id: "Foo" },
+          { event: "foo" },
+          async ({ step: { run } }) => {
+            await run("A", A, { undo: undoA });
+            await run("B", B, { undo: undoB });
+            throw new NonRetriableError("Error message");
+          }
+        );
+
+        return { fn, steps: { A, B, undoA, undoB } };
+      },
+      {
+        [ExecutionVersion.V0]: null,
+        [ExecutionVersion.V1]: {
+          hashes: {
+            A: "A",
+            B: "B",
+            undoA: "A.undo",
+            undoB: "B.undo",
+          },
+          tests: ({ A, B, undoA, undoB }) => ({
+            "request with A and B in stack runs B compensation": {
+              stack: {
+                [A]: { id: A, data: "A" },
+                [B]: { id: B, data: "B" },
+              },
+              expectedReturn: {
+                type: "step-ran",
+                step: expect.objectContaining({
+                  id: undoB,
+                  name: "B.undo",
+                  displayName: "B: undo",
+                  op: StepOpCode.StepRun,
+                  data: "undo B",
+                }),
+              },
+              expectedStepsRun: ["undoB"],
+            },
+            "request with B compensation in stack runs A compensation": {
+              stack: {
+                [A]: { id: A, data: "A" },
+                [B]: { id: B, data: "B" },
+                [undoB]: { id: undoB, data: "undo B" },
+              },
+              stackOrder: [A, B],
+              expectedReturn: {
+                type: "step-ran",
+                step: expect.objectContaining({
+                  id: undoA,
+                  name: "A.undo",
+                  data: "undo A",
+                }),
+              },
+              expectedStepsRun: ["undoA"],
+            },
+            "final request throws the original error": {
+              stack: {
+                [A]: { id: A, data: "A" },
+                [B]: { id: B, data: "B" },
+                [undoB]: { id: undoB, data: "undo B" },
+                [undoA]: { id: undoA, data: "undo A" },
+              },
+              stackOrder: [A, B],
+              expectedReturn: {
+                type: "function-rejected",
+                retriable: false,
+                error: matchError(new NonRetriableError("Error message")),
+              },
+              expectedErrors: ["Error message"],
+              expectedStepsRun: [],
+            },
+            "reports B compensation if immediate execution is disabled": {
+              stack: {
+                [A]: { id: A, data: "A" },
+                [B]: { id: B, data: "B" },
+              },
+              disableImmediateExecution: true,
+              expectedReturn: {
+                type: "steps-found",
+                steps: [
+                  {
+                    id: undoB,
+                    op: StepOpCode.StepPlanned,
+                    name: "B.undo",
+                    displayName: "B: undo",
+                  },
+                ],
+              },
+              expectedStepsRun: [],
+            },
+            "requesting B compensation runs it": {
+              stack: {
+                [A]: { id: A, data: "A" },
+                [B]: { id: B, data: "B" },
+              },
+              runStep: undoB,
+              disableImmediateExecution: true,
+              expectedReturn: {
+                type: "step-ran",
+                step: expect.objectContaining({
+                  id: undoB,
+                  data: "undo B",
+                }),
+              },
+              expectedStepsRun: ["undoB"],
+            },
+          }),
+        },
+      }
+    );
+
     testFn(
       "throws a retriable error when a string is thrown inside the main function body",
       () => {
@@ -2611,6 +2736,247 @@ describe("runFn", () => {
     });
   });
 
+  describe("step retry policy", () => {
+    const runFailingStep = async (
+      stepOpts: Omit<StepRunOptions, "id">,
+      attempt: number,
+      error: Error = new Error("step error")
+    ) => {
+      const fn = new InngestFunction(
+        createClient(opts),
+        { id: "Foo", retries: 5, triggers: [{ event: "foo" }] },
+        async ({ step }) => {
+          await step.run({ id: "A", ...stepOpts }, () => {
+            throw error;
+          });
+        }
+      );
+
+      const execution = fn["createExecution"]({
+        version: PREFERRED_EXECUTION_VERSION,
+        partialOptions: {
+          data: fromPartial({
+            event: { name: "foo", data: { foo: "foo" } },
+            attempt,
+          }),
+          runId: "run",
+          stepState: {},
+          stepCompletionOrder: [],
+          reqArgs: [],
+        },
+      });
+
+      return execution.start();
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test("runs a step with a retry policy immediately", async () => {
+      const ret = await runFailingStep({ retries: 1 }, 0);
+
+      expect(ret).toMatchObject({
+        type: "step-ran",
+        step: { displayName: "A" },
+        retriable: true,
+      });
+      expect((ret as { step: OutgoingOp }).step.opts).toBeUndefined();
+    });
+
+    test("does not retry once the step's retries are exhausted", async () => {
+      const ret = await runFailingStep({ retries: 1 }, 1);
+
+      expect(ret).toMatchObject({ type: "step-ran", retriable: false });
+    });
+
+    test("returns the backoff delay in seconds", async () => {
+      jest.spyOn(Math, "random").mockReturnValue(1);
+
+      await expect(
+        runFailingStep({ backoff: { initialDelay: "30s" } }, 2)
+      ).resolves.toMatchObject({ type: "step-ran", retriable: "120" });
+    });
+
+    test("caps the backoff delay at maxDelay", async () => {
+      jest.spyOn(Math, "random").mockReturnValue(1);
+
+      await expect(
+        runFailingStep({ backoff: { initialDelay: 1000, maxDelay: "5s" } }, 4)
+      ).resolves.toMatchObject({ type: "step-ran", retriable: "5" });
+    });
+
+    test("prefers a RetryAfterError's delay over the backoff", async () => {
+      await expect(
+        runFailingStep(
+          { backoff: { initialDelay: "30s" } },
+          0,
+          new RetryAfterError("wait", 7000)
+        )
+      ).resolves.toMatchObject({ type: "step-ran", retriable: "7" });
+    });
+  });
+
+  describe("abort signal", () => {
+    const run = (handler: Handler.Any, signal?: AbortSignal) => {
+      const fn = new InngestFunction(
+        createClient(opts),
+        { id: "Foo", triggers: [{ event: "foo" }] },
+        handler
+      );
+
+      return fn["createExecution"]({
+        version: PREFERRED_EXECUTION_VERSION,
+        partialOptions: {
+          data: fromPartial({
+            event: { name: "foo", data: { foo: "foo" } },
+          }),
+          runId: "run",
+          stepState: {},
+          stepCompletionOrder: [],
+          reqArgs: [],
+          signal,
+        },
+      }).start();
+    };
+
+    test("aborts the context's signal once the execution is over", async () => {
+      let signal: AbortSignal | undefined;
+      let abortedDuringRun: boolean | undefined;
+
+      const ret = await run(async (ctx) => {
+        signal = ctx.signal;
+        abortedDuringRun = ctx.signal.aborted;
+
+        await ctx.step.run("A", () => "a");
+        await ctx.step.run("B", () => "b");
+      });
+
+      expect(ret.type).toBe("step-ran");
+      expect(abortedDuringRun).toBe(false);
+      expect(signal?.aborted).toBe(true);
+    });
+
+    test("passes the context's signal to step callbacks", async () => {
+      let ctxSignal: AbortSignal | undefined;
+      let stepSignal: AbortSignal | undefined;
+      let abortedDuringStep: boolean | undefined;
+
+      await run(async ({ step, signal }) => {
+        ctxSignal = signal as AbortSignal;
+
+        await step.run("A", (runCtx: StepRunContext) => {
+          stepSignal = runCtx.signal;
+          abortedDuringStep = runCtx.signal.aborted;
+        });
+      });
+
+      expect(stepSignal).toBe(ctxSignal);
+      expect(abortedDuringStep).toBe(false);
+      expect(stepSignal?.aborted).toBe(true);
+    });
+
+    test("aborts the context's signal when the given signal is aborted", async () => {
+      const controller = new AbortController();
+      let signal: AbortSignal | undefined;
+
+      const ret = run(async (ctx) => {
+        signal = ctx.signal;
+
+        await ctx.step.run("A", () => {
+          controller.abort("cancelled");
+          return "a";
+        });
+      }, controller.signal);
+
+      await expect(ret).resolves.toMatchObject({ type: "step-ran" });
+      expect(signal?.aborted).toBe(true);
+      expect(signal?.reason).toBe("cancelled");
+    });
+
+    test("stops listening to the given signal once the execution is over", async () => {
+      const controller = new AbortController();
+      const removeListener = jest.spyOn(
+        controller.signal,
+        "removeEventListener"
+      );
+
+      await run(async ({ step }) => {
+        await step.run("A", () => "a");
+      }, controller.signal);
+
+      expect(removeListener).toHaveBeenCalledWith(
+        "abort",
+        expect.any(Function)
+      );
+    });
+  });
+
+  describe("step timeout", () => {
+    const runStep = (
+      timeout: StepRunOptions["timeout"],
+      fn: (runCtx: StepRunContext) => unknown
+    ) => {
+      const inngestFn = new InngestFunction(
+        createClient(opts),
+        { id: "Foo", triggers: [{ event: "foo" }] },
+        async ({ step }) => {
+          await step.run({ id: "A", timeout }, fn);
+        }
+      );
+
+      return inngestFn["createExecution"]({
+        version: PREFERRED_EXECUTION_VERSION,
+        partialOptions: {
+          data: fromPartial({
+            event: { name: "foo", data: { foo: "foo" } },
+          }),
+          runId: "run",
+          stepState: {},
+          stepCompletionOrder: [],
+          reqArgs: [],
+        },
+      }).start();
+    };
+
+    test("fails a step that takes longer than its timeout", async () => {
+      const ret = await runStep(10, () => new Promise(() => undefined));
+
+      expect(ret).toMatchObject({
+        type: "step-ran",
+        retriable: true,
+        step: {
+          op: StepOpCode.StepError,
+          error: {
+            name: "StepTimeoutError",
+            message: 'Step "A" timed out after 10ms',
+          },
+        },
+      });
+    });
+
+    test("aborts the step's signal when it times out", async () => {
+      let signal: AbortSignal | undefined;
+
+      await runStep(10, (runCtx) => {
+        signal = runCtx.signal;
+        return new Promise(() => undefined);
+      });
+
+      expect(signal?.aborted).toBe(true);
+      expect(signal?.reason).toBeInstanceOf(StepTimeoutError);
+    });
+
+    test("returns the result of a step that finishes in time", async () => {
+      const ret = await runStep("1s", () => "done");
+
+      expect(ret).toMatchObject({
+        type: "step-ran",
+        step: { op: StepOpCode.StepRun, data: "done" },
+      });
+    });
+  });
+
   describe("cancellation", () => {
     describe("types", () => {
       describe("no custom types", () => {
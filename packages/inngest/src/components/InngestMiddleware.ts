@@ -16,6 +16,7 @@ import {
 } from "../types";
 import { type Inngest } from "./Inngest";
 import { type InngestFunction } from "./InngestFunction";
+import { type ExecutionResult } from "./execution/InngestExecution";
 
 /**
  * A middleware that can be registered with Inngest to hook into various
@@ -327,8 +328,12 @@ export type MiddlewareRegisterReturn = {
      * The `beforeResponse` hook is called after the output has been set and
      * before the response is sent back to Inngest. This is where you can
      * perform any final actions before the response is sent back to Inngest.
+     *
+     * @param result - The result of the execution that will be sent back to
+     * Inngest, such as a step having been run or the function having
+     * completed, if one was reached.
      */
-    beforeResponse?: BlankHook;
+    beforeResponse?: MiddlewareRunBeforeResponse;
   }>;
 
   /**
@@ -418,7 +423,14 @@ type InitialRunInfo = Readonly<
        * A partial context object that will be passed to the function. Does not
        * necessarily contain all the data that will be passed to the function.
        */
-      ctx: Pick<MiddlewareRunArgs["ctx"], "event" | "runId">;
+      ctx: Pick<MiddlewareRunArgs["ctx"], "event" | "runId" | "attempt">;
+
+      /**
+       * The hashed ID of the step that Inngest has asked to run in this
+       * request, if any. Unset for requests that start or continue a run
+       * without targeting a particular step.
+       */
+      requestedRunStep?: string;
     }
   >
 >;
@@ -440,6 +452,29 @@ type MiddlewareRunInput = (ctx: MiddlewareRunArgs) => MaybePromise<{
   // transformStep?: (data: unknown) => unknown;
 } | void>;
 
+/**
+ * The changes that an `input` hook within a `run` can make.
+ *
+ * Giving a hook this as its return type means its changes to the context
+ * aren't inferred, so that replacing values such as `step` at runtime doesn't
+ * change the types of a function's own context.
+ *
+ * @internal
+ */
+export type MiddlewareRunInputChanges = Exclude<
+  Awaited<ReturnType<MiddlewareRunInput>>,
+  void
+>;
+
+/**
+ * The shape of a `beforeResponse` hook within a `run`.
+ *
+ * @internal
+ */
+type MiddlewareRunBeforeResponse = (ctx: {
+  result?: Readonly<ExecutionResult>;
+}) => MaybePromise<void>;
+
 /**
  * Arguments for the SendEventInput hook
  *
@@ -4,6 +4,8 @@ import { type Inngest } from "@local/components/Inngest";
 import { InngestFunction } from "@local/components/InngestFunction";
 import { referenceFunction } from "@local/components/InngestFunctionReference";
 import { type createStepTools } from "@local/components/InngestStepTools";
+import { _internals } from "@local/components/execution/v1";
+import { verifySignalToken } from "@local/helpers/signals";
 import { type IsEqual } from "@local/helpers/types";
 import {
   StepOpCode,
@@ -16,6 +18,7 @@ import {
   assertType,
   createClient,
   getStepTools,
+  runFnWithStack,
   testClientId,
   type StepTools,
 } from "../test/helpers";
@@ -139,6 +142,186 @@ describe("waitForEvent", () => {
   });
 });
 
+describe("waitForEvents", () => {
+  describe("runtime", () => {
+    let step: StepTools;
+
+    beforeEach(() => {
+      step = getStepTools();
+    });
+
+    test("waits for each event with an indexed ID", async () => {
+      await expect(
+        step.waitForEvents("id", {
+          events: {
+            a: { event: "a" },
+            b: { event: "b", match: "data.id" },
+          },
+          timeout: "2h",
+        })
+      ).resolves.toEqual({
+        a: {
+          id: "id.a",
+          op: StepOpCode.WaitForEvent,
+          name: "a",
+          displayName: "id: a",
+          opts: { timeout: "2h" },
+        },
+        b: {
+          id: "id.b",
+          op: StepOpCode.WaitForEvent,
+          name: "b",
+          displayName: "id: b",
+          opts: { timeout: "2h", if: "event.data.id == async.data.id" },
+        },
+      });
+    });
+
+    test("allows overriding the timeout and name", async () => {
+      await expect(
+        step.waitForEvents(
+          { id: "id", name: "name" },
+          {
+            events: { a: { event: "a", timeout: "1m", if: "a == b" } },
+            timeout: "2h",
+          }
+        )
+      ).resolves.toMatchObject({
+        a: {
+          id: "id.a",
+          displayName: "name: a",
+          opts: { timeout: "1m", if: "a == b" },
+        },
+      });
+    });
+  });
+
+  describe("types", () => {
+    const opts = (<T extends ClientOptions>(x: T): T => x)({
+      id: "",
+      schemas: new EventSchemas().fromRecord<{
+        foo: { data: { id: string } };
+        bar: { data: { id: string; bar: boolean } };
+        baz: { data: { baz: number } };
+      }>(),
+    });
+
+    type Client = Inngest<typeof opts>;
+
+    const waitForEvents: ReturnType<
+      typeof createStepTools<Client, "foo">
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    >["waitForEvents"] = (() => undefined) as any;
+
+    test("returns each event or null under its key", () => {
+      const _test = () =>
+        waitForEvents("id", {
+          events: {
+            bar: { event: "bar", match: "data.id" },
+            baz: { event: "baz" },
+          },
+          timeout: "1d",
+        });
+
+      type Actual = Awaited<ReturnType<typeof _test>>;
+
+      assertType<IsEqual<keyof Actual, "bar" | "baz">>(true);
+      assertType<
+        IsEqual<
+          NonNullable<Actual["bar"]>["data"],
+          { id: string; bar: boolean }
+        >
+      >(true);
+      assertType<IsEqual<Extract<Actual["baz"], null>, null>>(true);
+    });
+
+    test("disallows unknown events", () => {
+      void waitForEvents("id", {
+        // @ts-expect-error Unknown event
+        events: { unknown: { event: "unknown" } },
+        timeout: "1d",
+      });
+    });
+
+    test("disallows matching fields not in both events", () => {
+      void waitForEvents("id", {
+        // @ts-expect-error Unknown field
+        events: { baz: { event: "baz", match: "data.baz" } },
+        timeout: "1d",
+      });
+    });
+  });
+});
+
+describe("waitForSignal", () => {
+  const signingKey = "signkey-test-12345678";
+  const notify = jest.fn();
+
+  const fn = createClient({ id: testClientId }).createFunction(
+    { id: "test-fn" },
+    { event: "test-event" },
+    ({ step }) => {
+      return step.waitForSignal("approval", {
+        event: "app/approval.received",
+        url: "https://example.com/approve?id=123",
+        timeout: "1d",
+        notify,
+      });
+    }
+  );
+
+  beforeEach(() => {
+    notify.mockClear();
+    fn["client"]["inngestApi"].setSigningKey(signingKey);
+  });
+
+  test("creates and notifies of a signed token", async () => {
+    const ret = await runFnWithStack(fn, {});
+
+    expect(ret).toMatchObject({
+      type: "step-ran",
+      step: { name: "approval.create", displayName: "approval: create" },
+    });
+
+    const { token, url } = (ret as { step: { data: Record<string, string> } })
+      .step.data;
+
+    expect(notify).toHaveBeenCalledWith({ token, url });
+    expect(verifySignalToken(token, { signingKey })).toBe(true);
+    expect(url).toBe(
+      `https://example.com/approve?id=123&signal=${encodeURIComponent(
+        token as string
+      )}`
+    );
+  });
+
+  test("waits for an event carrying the token", async () => {
+    const ret = await runFnWithStack(fn, {
+      [_internals.hashId("approval.create")]: {
+        id: _internals.hashId("approval.create"),
+        data: { token: "abc.123" },
+      },
+    });
+
+    expect(ret).toEqual({
+      type: "steps-found",
+      steps: [
+        {
+          id: _internals.hashId("approval"),
+          op: StepOpCode.WaitForEvent,
+          name: "app/approval.received",
+          displayName: "approval",
+          opts: {
+            timeout: "1d",
+            if: 'async.data.signal == "abc.123"',
+          },
+        },
+      ],
+    });
+    expect(notify).not.toHaveBeenCalled();
+  });
+});
+
 describe("run", () => {
   let step: StepTools;
 
@@ -172,6 +355,27 @@ describe("run", () => {
     });
   });
 
+  test("does not send a retry policy to Inngest", async () => {
+    await expect(
+      step.run(
+        { id: "id", retries: 1, backoff: { initialDelay: "5s" } },
+        () => undefined
+      )
+    ).resolves.not.toHaveProperty("opts");
+  });
+
+  test("passes a signal to the function", () => {
+    void step.run("id", ({ signal }) => {
+      assertType<IsEqual<typeof signal, AbortSignal>>(true);
+    });
+  });
+
+  test("returns no opts if no retry policy is given", async () => {
+    await expect(step.run("id", () => undefined)).resolves.not.toHaveProperty(
+      "opts"
+    );
+  });
+
   test("types returned from run are the result of (de)serialization", () => {
     const input = {
       str: "",
@@ -238,6 +442,148 @@ describe("run", () => {
 
     assertType<KeysMatchExactly<Expected, Awaited<typeof output>>>(true);
   });
+
+  test("does not add an `undo` compensation to the op", async () => {
+    await expect(
+      step.run("id", () => undefined, { undo: () => undefined })
+    ).resolves.toEqual({
+      id: "id",
+      op: StepOpCode.StepPlanned,
+      name: "id",
+      displayName: "id",
+    });
+  });
+
+  test("`undo` is given the (de)serialized result of the step", () => {
+    const _test = () =>
+      step.run("step", () => ({ date: new Date() }), {
+        undo: (result) => {
+          assertType<IsEqual<typeof result, { date: string }>>(true);
+        },
+      });
+  });
+});
+
+describe("fetch", () => {
+  describe("runtime", () => {
+    let step: StepTools;
+
+    beforeEach(() => {
+      step = getStepTools();
+    });
+
+    test("return StepPlanned step op code", async () => {
+      await expect(
+        step.fetch("id", "https://example.com")
+      ).resolves.toMatchObject({
+        op: StepOpCode.StepPlanned,
+      });
+    });
+
+    test("returns `id` as ID", async () => {
+      await expect(
+        step.fetch("id", "https://example.com")
+      ).resolves.toMatchObject({
+        id: "id",
+      });
+    });
+
+    test("returns specific name if given", async () => {
+      await expect(
+        step.fetch({ id: "id", name: "name" }, "https://example.com")
+      ).resolves.toMatchObject({
+        displayName: "name",
+      });
+    });
+  });
+
+  describe("execution", () => {
+    const fetchMock = jest.fn<Promise<Response>, Parameters<typeof fetch>>();
+
+    const client = createClient({
+      id: testClientId,
+      fetch: fetchMock as typeof fetch,
+    });
+
+    const fn = client.createFunction(
+      { id: "fn" },
+      { event: "foo" },
+      ({ step }) => {
+        return step.fetch("id", "https://example.com", { method: "POST" });
+      }
+    );
+
+    const run = () =>
+      runFnWithStack(fn, {}, { runStep: _internals.hashId("id") });
+
+    beforeEach(() => {
+      fetchMock.mockReset();
+    });
+
+    test("records the response", async () => {
+      fetchMock.mockResolvedValueOnce(
+        new Response("body", { status: 404, headers: { "X-Foo": "bar" } })
+      );
+
+      await expect(run()).resolves.toMatchObject({
+        type: "step-ran",
+        step: {
+          op: StepOpCode.StepRun,
+          data: {
+            url: "https://example.com",
+            status: 404,
+            ok: false,
+            headers: { "x-foo": "bar" },
+            body: "body",
+          },
+        },
+      });
+
+      expect(fetchMock).toHaveBeenCalledWith("https://example.com", {
+        method: "POST",
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        signal: expect.any(AbortSignal),
+      });
+    });
+
+    test("retries a 5xx response", async () => {
+      fetchMock.mockResolvedValueOnce(new Response("", { status: 503 }));
+
+      await expect(run()).resolves.toMatchObject({
+        type: "step-ran",
+        step: { op: StepOpCode.StepError },
+        retriable: true,
+      });
+    });
+
+    test("retries a 429 response after `retry-after` seconds", async () => {
+      fetchMock.mockResolvedValueOnce(
+        new Response("", { status: 429, headers: { "Retry-After": "30" } })
+      );
+
+      await expect(run()).resolves.toMatchObject({
+        type: "step-ran",
+        step: { op: StepOpCode.StepError },
+        retriable: "30",
+      });
+    });
+
+    test("retries a 5xx response after a `retry-after` date", async () => {
+      const date = new Date(Date.now() + 60_000);
+      date.setMilliseconds(0);
+
+      fetchMock.mockResolvedValueOnce(
+        new Response("", {
+          status: 500,
+          headers: { "Retry-After": date.toUTCString() },
+        })
+      );
+
+      await expect(run()).resolves.toMatchObject({
+        retriable: date.toISOString(),
+      });
+    });
+  });
 });
 
 describe("sleep", () => {
@@ -956,3 +1302,173 @@ describe("invoke", () => {
     });
   });
 });
+
+describe("invokeMany", () => {
+  describe("runtime", () => {
+    let step: StepTools;
+
+    beforeEach(() => {
+      step = getStepTools();
+    });
+
+    const fn = new InngestFunction(
+      createClient({ id: testClientId }),
+      { id: "test-fn", triggers: [{ event: "test-event" }] },
+      () => "test-return"
+    );
+
+    test("invokes the function once per payload with an indexed ID", async () => {
+      await expect(
+        step.invokeMany("id", {
+          function: fn,
+          payloads: [{ data: { foo: "a" } }, { data: { foo: "b" } }],
+          timeout: "1m",
+        })
+      ).resolves.toEqual([
+        {
+          ok: true,
+          data: {
+            id: "id.0",
+            op: StepOpCode.InvokeFunction,
+            displayName: "id: 0",
+            opts: {
+              function_id: fn.id(testClientId),
+              payload: { data: { foo: "a" } },
+              timeout: "1m",
+            },
+          },
+        },
+        {
+          ok: true,
+          data: {
+            id: "id.1",
+            op: StepOpCode.InvokeFunction,
+            displayName: "id: 1",
+            opts: {
+              function_id: fn.id(testClientId),
+              payload: { data: { foo: "b" } },
+              timeout: "1m",
+            },
+          },
+        },
+      ]);
+    });
+
+    test("returns specific name if given", async () => {
+      await expect(
+        step.invokeMany(
+          { id: "id", name: "name" },
+          { function: fn, payloads: [{ data: { foo: "a" } }] }
+        )
+      ).resolves.toMatchObject([{ data: { displayName: "name: 0" } }]);
+    });
+
+    test("returns an empty array if no payloads are given", async () => {
+      await expect(
+        step.invokeMany("id", { function: fn, payloads: [] })
+      ).resolves.toEqual([]);
+    });
+
+    test("collects failed invocations without rejecting", async () => {
+      const error = new Error("nope");
+
+      jest
+        .spyOn(step, "invoke")
+        .mockImplementation((({ id }: { id: string }) =>
+          id === "id.1"
+            ? Promise.reject(error)
+            : Promise.resolve(id)) as unknown as typeof step.invoke);
+
+      await expect(
+        step.invokeMany("id", {
+          function: fn,
+          payloads: [{ data: {} }, { data: {} }, { data: {} }],
+        })
+      ).resolves.toEqual([
+        { ok: true, data: "id.0" },
+        { ok: false, error },
+        { ok: true, data: "id.2" },
+      ]);
+    });
+
+    test("limits the number of invocations in progress at once", async () => {
+      let inProgress = 0;
+      let maxInProgress = 0;
+
+      jest.spyOn(step, "invoke").mockImplementation((async () => {
+        maxInProgress = Math.max(maxInProgress, ++inProgress);
+        await new Promise((resolve) => setTimeout(resolve));
+        inProgress--;
+      }) as unknown as typeof step.invoke);
+
+      const results = await step.invokeMany("id", {
+        function: fn,
+        payloads: Array.from({ length: 5 }, () => ({ data: {} })),
+        concurrency: 2,
+      });
+
+      expect(results).toHaveLength(5);
+      expect(maxInProgress).toBe(2);
+      expect(step.invoke).toHaveBeenCalledTimes(5);
+    });
+
+    test("throws if an invalid concurrency is given", async () => {
+      await expect(
+        step.invokeMany("id", {
+          function: fn,
+          payloads: [{ data: {} }],
+          concurrency: 0,
+        })
+      ).rejects.toThrow("Invalid concurrency passed to invokeMany");
+    });
+  });
+
+  describe("types", () => {
+    const opts = (<T extends ClientOptions>(x: T): T => x)({
+      id: "test-client",
+      schemas: new EventSchemas().fromRecord<{
+        foo: { data: { foo: string } };
+      }>(),
+    });
+
+    const client = createClient(opts);
+
+    const invokeMany = null as unknown as ReturnType<
+      typeof createStepTools<typeof client>
+    >["invokeMany"];
+
+    const fn = client.createFunction(
+      { id: "fn" },
+      { event: "foo" },
+      () => "return" as const
+    );
+
+    test("requires payloads matching the function's trigger", () => {
+      const _test = () =>
+        invokeMany("id", { function: fn, payloads: [{ data: { foo: "" } }] });
+
+      const _test2 = () =>
+        invokeMany("id", {
+          function: fn,
+          // @ts-expect-error Invalid payload provided
+          payloads: [{ data: { bar: "" } }],
+        });
+    });
+
+    test("returns a result for each invocation", () => {
+      const _test = () =>
+        invokeMany("id", {
+          function: referenceFunction<typeof fn>({ functionId: "fn" }),
+          payloads: [{ data: { foo: "" } }],
+        });
+
+      type Actual = Awaited<ReturnType<typeof _test>>;
+      assertType<
+        IsEqual<
+          Actual,
+          ({ ok: true; data: "return" } | { ok: false; error: Error })[]
+        >
+      >(true);
+    });
+  });
+});
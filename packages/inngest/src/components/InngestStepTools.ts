@@ -1,6 +1,8 @@
 import { z } from "zod";
-import { logPrefix } from "../helpers/consts";
+import { headerKeys, logPrefix } from "../helpers/consts";
 import { type Jsonify } from "../helpers/jsonify";
+import { parseRetryAfter } from "../helpers/net";
+import { createSignalToken, signalKey } from "../helpers/signals";
 import { timeStr } from "../helpers/strings";
 import {
   type ExclusiveKeys,
@@ -8,17 +10,23 @@ import {
   type ParametersExceptFirst,
   type SendEventPayload,
   type SimplifyDeep,
+  type StrictUnion,
 } from "../helpers/types";
 import {
   StepOpCode,
   type EventPayload,
   type HashedOp,
   type InvocationResult,
+  type InvokeManyResult,
   type InvokeTargetFunctionDefinition,
   type MinimalEventPayload,
   type SendEventOutput,
+  type StepFetchResponse,
   type StepOptions,
   type StepOptionsOrId,
+  type StepRunContext,
+  type StepRunOptions,
+  type StepRunOptionsOrId,
   type TriggerEventFromFunction,
   type TriggersFromClient,
 } from "../types";
@@ -30,13 +38,37 @@ import {
 } from "./Inngest";
 import { InngestFunction } from "./InngestFunction";
 import { InngestFunctionReference } from "./InngestFunctionReference";
+import { RetryAfterError } from "./RetryAfterError";
+
+/**
+ * The context given to a tool's `fn` when its step is executed.
+ */
+export interface StepToolContext {
+  /**
+   * The execution's signal, aborted if the step times out or the execution is
+   * over.
+   */
+  signal: AbortSignal;
+}
 
 export interface FoundStep extends HashedOp {
   hashedId: string;
-  fn?: (...args: unknown[]) => unknown;
+  fn?: (ctx: StepToolContext) => unknown;
   fulfilled: boolean;
   handled: boolean;
 
+  /**
+   * A compensation to run with the result of this step if the function later
+   * fails permanently.
+   */
+  undo?: (data: unknown) => unknown;
+
+  /**
+   * How this step is retried and timed out when it's run. This is applied by
+   * the SDK and is not sent to Inngest.
+   */
+  policy?: StepRunPolicy;
+
   /**
    * Returns a boolean representing whether or not the step was handled on this
    * invocation.
@@ -80,13 +112,40 @@ export interface StepToolOptions<
    * gives the SDK the opportunity to tell Inngest what it wants to do before
    * it does it.
    *
-   * This function is passed the arguments passed by the user. It will be run
-   * when we receive an operation matching this one that does not contain a
-   * `data` property.
+   * This function is passed a {@link StepToolContext}, followed by the
+   * arguments passed by the user. It will be run when we
+   * receive an operation matching this one that does not contain a `data`
+   * property.
+   */
+  fn?: (ctx: StepToolContext, ...args: Parameters<T>) => unknown;
+
+  /**
+   * Optionally, we can also provide a function that returns a compensation
+   * for this operation, which will be run as its own step with the result of
+   * this operation if the function later fails permanently.
+   *
+   * This function is passed the arguments passed by the user.
    */
-  fn?: (...args: Parameters<T>) => unknown;
+  undo?: (...args: Parameters<T>) => ((data: unknown) => unknown) | undefined;
+
+  /**
+   * Optionally, we can also provide a function that returns how this
+   * operation is retried and timed out when it's run.
+   *
+   * This function is passed the arguments passed by the user.
+   */
+  policy?: (...args: Parameters<T>) => StepRunPolicy | undefined;
 }
 
+/**
+ * The options of a `step.run()` call that set how the step is retried and
+ * timed out.
+ */
+export type StepRunPolicy = Pick<
+  StepRunOptions,
+  "retries" | "backoff" | "timeout"
+>;
+
 export const getStepOptions = (options: StepOptionsOrId): StepOptions => {
   if (typeof options === "string") {
     return { id: options };
@@ -100,6 +159,39 @@ export const getStepOptions = (options: StepOptionsOrId): StepOptions => {
  */
 export const STEP_INDEXING_SUFFIX = ":";
 
+/**
+ * The result of a step mocked using {@link mockStep}.
+ */
+export type MockedStep = { id: string } & StrictUnion<
+  { data: unknown } | { error: unknown }
+>;
+
+/**
+ * Mock the result of a step by its ID, such that the step resolves with the
+ * given `data` or rejects with the given `error` without its handler ever
+ * being run.
+ *
+ * The ID is the one given to the step tool, so a step using the same ID more
+ * than once can have each use mocked individually using its indexed ID, such
+ * as `"charge-card:1"`.
+ *
+ * @example
+ * ```ts
+ * const t = new InngestTestEngine({
+ *   function: fn,
+ *   steps: [mockStep("charge-card", { error: new Error("Card declined") })],
+ * });
+ * ```
+ *
+ * @public
+ */
+export const mockStep = (
+  id: string,
+  result: StrictUnion<{ data: unknown } | { error: unknown }>
+): MockedStep => {
+  return { ...result, id } as MockedStep;
+};
+
 /**
  * Create a new set of step function tools ready to be used in a step function.
  * This function should be run and a fresh set of tools provided every time a
@@ -189,7 +281,7 @@ export const createStepTools = <
         };
       },
       {
-        fn: (idOrOptions, payload) => {
+        fn: (ctx, idOrOptions, payload) => {
           return client.send(payload);
         },
       }
@@ -248,6 +340,123 @@ export const createStepTools = <
       }
     ),
 
+    /**
+     * Wait for many events to be received before continuing. Each event is
+     * waited for in parallel using `waitForEvent`, and the returned object will
+     * contain each event under the key it was given, or `null` if it was not
+     * received before timing out.
+     *
+     * Each event can have its own `match` or `if` condition, and can override
+     * the `timeout` given for all events.
+     *
+     * @example
+     * ```ts
+     * const { payment, shipment } = await step.waitForEvents("wait-for-order", {
+     *   events: {
+     *     payment: { event: "app/payment.received", match: "data.userId" },
+     *     shipment: { event: "app/shipment.sent", match: "data.userId" },
+     *   },
+     *   timeout: "7d",
+     * });
+     * ```
+     */
+    waitForEvents: <
+      IncomingEvents extends Record<string, TriggersFromClient<TClient>>,
+    >(
+      idOrOptions: StepOptionsOrId,
+      opts: WaitForEventsOpts<
+        GetEvents<TClient, true>,
+        TTriggers & string,
+        IncomingEvents
+      >
+    ): Promise<{
+      [K in keyof IncomingEvents]:
+        | GetEvents<TClient, true>[IncomingEvents[K]]
+        | null;
+    }> => {
+      const { id, name } = getStepOptions(idOrOptions);
+      const entries = Object.entries(opts.events) as [
+        string,
+        { timeout?: number | string | Date },
+      ][];
+
+      return Promise.all(
+        entries.map(([key, { timeout, ...eventOpts }]) => {
+          return tools.waitForEvent(
+            { id: [id, key].join("."), name: `${name ?? id}: ${key}` },
+            {
+              ...eventOpts,
+              timeout: timeout ?? opts.timeout,
+            } as Parameters<typeof tools.waitForEvent>[1]
+          );
+        })
+      ).then((events: unknown[]) => {
+        return entries.reduce(
+          (acc, [key], i) => ({ ...acc, [key]: events[i] }),
+          {} as Record<keyof IncomingEvents, never>
+        );
+      });
+    },
+
+    /**
+     * Wait for an external system to call back before continuing, such as a
+     * payment provider or a human approving a request.
+     *
+     * A unique, signed token is created for this step and given to `notify`,
+     * along with a callback URL if a `url` is given. The function then waits
+     * for an `event` with the token as its `data.signal`. Returns the event, or
+     * `null` if it was not received before timing out.
+     *
+     * The token is created in its own step, so `notify` is only called once.
+     * Tokens can be checked using `verifySignalToken()` before sending the
+     * event. A signing key is required to sign tokens, including when using
+     * the Inngest Dev Server.
+     *
+     * @example
+     * ```ts
+     * const approval = await step.waitForSignal("wait-for-approval", {
+     *   event: "app/approval.received",
+     *   url: "https://example.com/webhooks/approval",
+     *   timeout: "7d",
+     *   notify: ({ url }) => email.send({ to: manager, body: url }),
+     * });
+     * ```
+     */
+    waitForSignal: async <IncomingEvent extends TriggersFromClient<TClient>>(
+      idOrOptions: StepOptionsOrId,
+      opts: WaitForSignalOpts<IncomingEvent>
+    ): Promise<GetEvents<TClient, true>[IncomingEvent] | null> => {
+      const { id, name } = getStepOptions(idOrOptions);
+      const { event, timeout, url, notify } = opts;
+
+      const signal = await tools.run(
+        { id: [id, "create"].join("."), name: `${name ?? id}: create` },
+        async (): Promise<Signal> => {
+          const token = createSignalToken(client["inngestApi"]["signingKey"]);
+
+          let callbackUrl: string | undefined;
+          if (url) {
+            const parsedUrl = new URL(url);
+            parsedUrl.searchParams.set(signalKey, token);
+            callbackUrl = parsedUrl.href;
+          }
+
+          const signal: Signal = { token, url: callbackUrl };
+          await notify?.(signal);
+
+          return signal;
+        }
+      );
+
+      return tools.waitForEvent({ id, name }, {
+        event,
+        timeout,
+        if: `async.data.${signalKey} == ${JSON.stringify(signal.token)}`,
+      } as Parameters<typeof tools.waitForEvent>[1]) as Promise<
+        GetEvents<TClient, true>[IncomingEvent] | null
+      >;
+    },
+
     /**
      * Use this tool to run business logic. Each call to `run` will be retried
      * individually, meaning you can compose complex workflows that safely
@@ -259,10 +468,52 @@ export const createStepTools = <
      * In either case, the return value of the function will be the return value
      * of the `run` tool, meaning you can return and reason about return data
      * for next steps.
+     *
+     * An `undo` function can be given to compensate for the step if the
+     * function later fails permanently, either by throwing a
+     * `NonRetriableError` or by exhausting its retries. Compensations are run
+     * as their own steps in the reverse order to which their steps completed,
+     * and are given the result of their step.
+     *
+     * @example
+     * ```ts
+     * const charge = await step.run(
+     *   "charge-card",
+     *   () => payments.charge(order),
+     *   { undo: (charge) => payments.refund(charge.id) }
+     * );
+     * ```
+     *
+     * A step can also declare its own `retries` and `backoff`, for example to
+     * retry a payment only once while the rest of the function is retried
+     * more times. A step can't be retried more times than its function.
+     *
+     * @example
+     * ```ts
+     * await step.run(
+     *   { id: "charge-card", retries: 1, backoff: { initialDelay: "30s" } },
+     *   () => payments.charge(order)
+     * );
+     * ```
+     *
+     * A `timeout` fails the step with a `StepTimeoutError` if it takes too
+     * long, so that it's retried instead of holding the request open.
+     *
+     * The function is passed a `signal`, the same as the one on the
+     * function's context, that is aborted if the step times out or the
+     * execution is over, which can be used to cancel any work still in
+     * progress.
+     *
+     * @example
+     * ```ts
+     * await step.run({ id: "fetch-report", timeout: "30s" }, ({ signal }) =>
+     *   fetch(reportUrl, { signal })
+     * );
+     * ```
      */
     run: createTool<
-      <T extends () => unknown>(
-        idOrOptions: StepOptionsOrId,
+      <T extends (ctx: StepRunContext) => unknown>(
+        idOrOptions: StepRunOptionsOrId,
 
         /**
          * The function to run when this step is executed. Can be synchronous or
@@ -272,32 +523,109 @@ export const createStepTools = <
          * call to `run`, meaning you can return and reason about return data
          * for next steps.
          */
-        fn: T
-      ) => Promise<
+        fn: T,
+
+        opts?: StepRunOpts<RunOutput<T>>
+      ) => Promise<RunOutput<T>>
+    >(
+      ({ id, name }) => {
+        return {
+          id,
+          op: StepOpCode.StepPlanned,
+          name: id,
+          displayName: name ?? id,
+        };
+      },
+      {
+        fn: (ctx, stepOptions, fn) => fn({ signal: ctx.signal }),
+        undo: (stepOptions, fn, opts) =>
+          opts?.undo as ((data: unknown) => unknown) | undefined,
+        policy: (stepOptions) => {
+          const { retries, backoff, timeout } = getStepOptions(
+            stepOptions
+          ) as StepRunOptions;
+
+          return { retries, backoff, timeout };
+        },
+      }
+    ),
+
+    /**
+     * Make an HTTP request as a step. The response's status, headers and body
+     * are recorded, so the request is only made once and its response is
+     * returned on subsequent executions.
+     *
+     * If the response has a `429` or `5xx` status, the step will throw and be
+     * retried. If the response also has a `retry-after` header, the step will
+     * be retried after the given time using a `RetryAfterError`. Any other
+     * status will be returned as-is, so make sure to check `ok` or `status`.
+     *
+     * @example
+     * ```ts
+     * const res = await step.fetch("get-user", "https://example.com/users/1");
+     *
+     * if (res.ok) {
+     *   const user = JSON.parse(res.body);
+     * }
+     * ```
+     */
+    fetch: createTool<
+      (
+        idOrOptions: StepOptionsOrId,
+
         /**
-         * TODO Middleware can affect this. If run input middleware has returned
-         * new step data, do not Jsonify.
+         * The URL to request.
          */
-        SimplifyDeep<
-          Jsonify<
-            T extends () => Promise<infer U>
-              ? Awaited<U extends void ? null : U>
-              : ReturnType<T> extends void
-                ? null
-                : ReturnType<T>
-          >
-        >
-      >
+        input: string | URL,
+
+        /**
+         * Options for the request, as would be passed to `fetch()`.
+         */
+        init?: RequestInit
+      ) => Promise<StepFetchResponse>
     >(
       ({ id, name }) => {
         return {
           id,
           op: StepOpCode.StepPlanned,
-          name: id,
+          name: "fetch",
           displayName: name ?? id,
         };
       },
-      { fn: (stepOptions, fn) => fn() }
+      {
+        fn: async ({ signal }, idOrOptions, input, init) => {
+          const res = await client["fetch"](input, { signal, ...init });
+
+          const headers: Record<string, string> = {};
+          res.headers.forEach((value, key) => {
+            headers[key.toLowerCase()] = value;
+          });
+
+          const response: StepFetchResponse = {
+            url: res.url || input.toString(),
+            status: res.status,
+            statusText: res.statusText,
+            ok: res.ok,
+            headers,
+            body: await res.text(),
+          };
+
+          if (res.status === 429 || res.status >= 500) {
+            const message = `Request to ${response.url} failed with status ${response.status}`;
+            const retryAfter = parseRetryAfter(headers[headerKeys.RetryAfter]);
+
+            if (retryAfter) {
+              throw new RetryAfterError(message, retryAfter, {
+                cause: response,
+              });
+            }
+
+            throw new Error(message);
+          }
+
+          return response;
+        },
+      }
     ),
 
     /**
@@ -459,6 +787,79 @@ export const createStepTools = <
         opts,
       };
     }),
+
+    /**
+     * Invoke a passed Inngest `function` once for each of the given
+     * `payloads`, returning a result for each invocation in the same order as
+     * the payloads were given.
+     *
+     * Each invocation is its own `invoke` step, with an ID of the given ID
+     * followed by the index of its payload, e.g. `"process-users.0"`. A failed
+     * invocation does not reject the returned promise; instead, its result will
+     * be `{ ok: false, error }`, so that partial failures can be handled.
+     *
+     * Use `concurrency` to limit how many invocations are in progress at once.
+     * By default, all invocations are started at the same time.
+     *
+     * @example
+     * ```ts
+     * const results = await step.invokeMany("process-users", {
+     *   function: processUser,
+     *   payloads: users.map((user) => ({ data: { userId: user.id } })),
+     *   concurrency: 5,
+     * });
+     *
+     * const failed = results.filter((result) => !result.ok);
+     * ```
+     */
+    invokeMany: async <TFunction extends InvokeTargetFunctionDefinition>(
+      idOrOptions: StepOptionsOrId,
+      opts: InvokeManyOpts<TFunction>
+    ): Promise<InvokeManyResult<GetFunctionOutput<TFunction>>[]> => {
+      const { id, name } = getStepOptions(idOrOptions);
+      const { function: fn, payloads, concurrency, timeout } = opts;
+
+      if (
+        typeof concurrency !== "undefined" &&
+        (!Number.isInteger(concurrency) || concurrency < 1)
+      ) {
+        throw new Error(
+          `Invalid concurrency passed to invokeMany; must be a positive integer: ${concurrency}`
+        );
+      }
+
+      const results: InvokeManyResult<GetFunctionOutput<TFunction>>[] = [];
+      let next = 0;
+
+      // Each worker invokes one payload at a time until there are none left.
+      // Step IDs are based on the index of each payload, so the order in which
+      // invocations complete doesn't affect memoization.
+      const worker = async () => {
+        while (next < payloads.length) {
+          const i = next++;
+
+          results[i] = await tools
+            .invoke({ id: [id, i].join("."), name: `${name ?? id}: ${i}` }, {
+              ...payloads[i],
+              function: fn,
+              timeout,
+            } as Parameters<typeof tools.invoke<TFunction>>[1])
+            .then(
+              (data) => ({ ok: true as const, data }),
+              (err: Error) => ({ ok: false as const, error: err })
+            );
+        }
+      };
+
+      await Promise.all(
+        Array.from(
+          { length: Math.min(concurrency ?? payloads.length, payloads.length) },
+          worker
+        )
+      );
+
+      return results;
+    },
   };
 
   return tools;
@@ -498,6 +899,120 @@ type InvocationOpts<TFunction extends InvokeTargetFunctionDefinition> =
       timeout?: number | string | Date;
     };
 
+/**
+ * A signal created by `waitForSignal`, to be given to an external system so
+ * that it can resume the function.
+ */
+type Signal = {
+  /**
+   * The signed token that must be sent as `data.signal` in the event that
+   * resumes the function.
+   */
+  token: string;
+
+  /**
+   * The given callback URL with the token added to its query string as
+   * `signal`, if a `url` was given.
+   */
+  url?: string;
+};
+
+/**
+ * A set of parameters given to a `waitForSignal` call.
+ */
+type WaitForSignalOpts<IncomingEvent> = {
+  /**
+   * The event that will carry the signal's token as `data.signal`.
+   */
+  event: IncomingEvent;
+
+  /**
+   * The step function will wait for the signal for a maximum of this time, at
+   * which point `null` will be returned instead of the event.
+   *
+   * The time to wait can be specified using a `number` of milliseconds, an
+   * `ms`-compatible time string like `"1 hour"`, `"30 mins"`, or `"2.5d"`, or
+   * a `Date` object.
+   *
+   * {@link https://npm.im/ms}
+   */
+  timeout: number | string | Date;
+
+  /**
+   * A callback URL to add the signal's token to, which will be given to
+   * `notify`.
+   */
+  url?: string;
+
+  /**
+   * Called once with the created signal, so that it can be given to the
+   * external system that will resume the function.
+   */
+  notify?: (signal: Signal) => unknown;
+};
+
+/**
+ * The output of a `run` step, as it will be returned after being memoized.
+ *
+ * TODO Middleware can affect this. If run input middleware has returned new
+ * step data, do not Jsonify.
+ */
+type RunOutput<T extends (ctx: StepRunContext) => unknown> = SimplifyDeep<
+  Jsonify<
+    T extends (ctx: StepRunContext) => Promise<infer U>
+      ? Awaited<U extends void ? null : U>
+      : ReturnType<T> extends void
+        ? null
+        : ReturnType<T>
+  >
+>;
+
+/**
+ * A set of optional parameters given to a `run` call.
+ */
+type StepRunOpts<TOutput> = {
+  /**
+   * A compensation for this step, run as its own step with the result of this
+   * step if the function later fails permanently, either by throwing a
+   * `NonRetriableError` or by exhausting its retries.
+   *
+   * Compensations are run in the reverse order to which their steps completed.
+   */
+  undo?: (result: TOutput) => unknown;
+};
+
+/**
+ * Options given to an `invokeMany` call, describing the function to invoke and
+ * the payloads to invoke it with.
+ */
+type InvokeManyOpts<TFunction extends InvokeTargetFunctionDefinition> =
+  InvocationTargetOpts<TFunction> & {
+    /**
+     * The payloads to invoke the function with. The function is invoked once
+     * for each payload.
+     */
+    payloads: TriggerEventFromFunction<TFunction>[];
+
+    /**
+     * The maximum number of invocations that can be in progress at once. If
+     * not given, all invocations are started at the same time.
+     */
+    concurrency?: number;
+
+    /**
+     * The step function will wait for each invocation to finish for a maximum
+     * of this time, at which point the result for that invocation will be an
+     * error instead of the output of the invoked function.
+     *
+     * The time to wait can be specified using a `number` of milliseconds, an
+     * `ms`-compatible time string like `"1 hour"`, `"30 mins"`, or `"2.5d"`,
+     * or a `Date` object.
+     *
+     * {@link https://npm.im/ms}
+     */
+    timeout?: number | string | Date;
+  };
+
 /**
  * A set of optional parameters given to a `waitForEvent` call to control how
  * the event is handled.
@@ -520,7 +1035,17 @@ type WaitForEventOpts<
    * {@link https://npm.im/ms}
    */
   timeout: number | string | Date;
-} & ExclusiveKeys<
+} & WaitForEventMatchOpts<Events, TriggeringEvent, IncomingEvent>;
+
+/**
+ * Options given to `waitForEvent` and `waitForEvents` calls to control which
+ * incoming event will be matched.
+ */
+type WaitForEventMatchOpts<
+  Events extends Record<string, EventPayload>,
+  TriggeringEvent extends keyof Events,
+  IncomingEvent extends keyof Events,
+> = ExclusiveKeys<
   {
     /**
      * If provided, the step function will wait for the incoming event to match
@@ -563,3 +1088,40 @@ type WaitForEventOpts<
   "match",
   "if"
 >;
+
+/**
+ * A set of parameters given to a `waitForEvents` call to describe each event
+ * to wait for and how they are handled.
+ */
+type WaitForEventsOpts<
+  Events extends Record<string, EventPayload>,
+  TriggeringEvent extends keyof Events,
+  IncomingEvents extends Record<string, keyof Events>,
+> = {
+  /**
+   * The events to wait for, keyed by the name each will be returned under.
+   */
+  events: {
+    [K in keyof IncomingEvents]: {
+      event: IncomingEvents[K];
+
+      /**
+       * Optionally override the `timeout` used for this event.
+       */
+      timeout?: number | string | Date;
+    } & WaitForEventMatchOpts<Events, TriggeringEvent, IncomingEvents[K]>;
+  };
+
+  /**
+   * The step function will wait for each event for a maximum of this time, at
+   * which point that event will be returned as `null` instead of any event
+   * data.
+   *
+   * The time to wait can be specified using a `number` of milliseconds, an
+   * `ms`-compatible time string like `"1 hour"`, `"30 mins"`, or `"2.5d"`, or
+   * a `Date` object.
+   *
+   * {@link https://npm.im/ms}
+   */
+  timeout: number | string | Date;
+};
@@ -0,0 +1,738 @@
+import {
+  InngestTestEngine,
+  NonRetriableError,
+  mockStep,
+  type EventPayload,
+  type GetStepTools,
+  type InngestFunction,
+} from "@local";
+import { StepOpCode } from "@local/types";
+import { createClient } from "../test/helpers";
+
+const inngest = createClient({ id: "test", isDev: true });
+
+describe("InngestTestEngine", () => {
+  describe("execute", () => {
+    test("returns the result of a function without steps", async () => {
+      const fn = inngest.createFunction(
+        { id: "no-steps" },
+        { event: "foo" },
+        ({ event }) => `hello ${event.name}`
+      );
+
+      const t = new InngestTestEngine({ function: fn });
+
+      await expect(
+        t.execute({ events: [{ name: "foo", data: {} }] })
+      ).resolves.toEqual({ result: "hello foo", timeline: [] });
+    });
+
+    test("runs steps in order and returns a timeline", async () => {
+      const fn = inngest.createFunction(
+        { id: "steps" },
+        { event: "foo" },
+        async ({ step }) => {
+          const a = await step.run("a", () => 1);
+          const b = await step.run("b", () => a + 1);
+          const [c, d] = await Promise.all([
+            step.run("c", () => b + 1),
+            step.run("c", () => b + 2),
+          ]);
+
+          return [a, b, c, d];
+        }
+      );
+
+      const { result, timeline } = await new InngestTestEngine({
+        function: fn,
+      }).execute();
+
+      expect(result).toEqual([1, 2, 3, 4]);
+      expect(timeline).toEqual([
+        expect.objectContaining({ id: "a", data: 1, attempts: 1 }),
+        expect.objectContaining({ id: "b", data: 2, attempts: 1 }),
+        expect.objectContaining({ id: "c", data: 3, attempts: 1 }),
+        expect.objectContaining({ id: "c:1", data: 4, attempts: 1 }),
+      ]);
+      expect(timeline[0]?.hashedId).toMatch(/^[a-f0-9]{40}$/);
+    });
+
+    test("fast-forwards sleeps", async () => {
+      const fn = inngest.createFunction(
+        { id: "sleeps" },
+        { event: "foo" },
+        async ({ step }) => {
+          await step.sleep("wait-a-day", "1d");
+          await step.sleepUntil("wait-a-year", new Date(Date.now() + 3.154e10));
+
+          return "done";
+        }
+      );
+
+      const { result, timeline } = await new InngestTestEngine({
+        function: fn,
+      }).execute();
+
+      expect(result).toBe("done");
+      expect(timeline).toEqual([
+        expect.objectContaining({
+          id: "wait-a-day",
+          op: StepOpCode.Sleep,
+          data: null,
+        }),
+        expect.objectContaining({
+          id: "wait-a-year",
+          op: StepOpCode.Sleep,
+          data: null,
+        }),
+      ]);
+    });
+
+    describe("waitForEvent", () => {
+      const fn = inngest.createFunction(
+        { id: "wait" },
+        { event: "foo" },
+        async ({ step }) => {
+          return step.waitForEvent("wait", {
+            event: "bar",
+            match: "data.id",
+            timeout: "1h",
+          });
+        }
+      );
+
+      const t = new InngestTestEngine({
+        function: fn,
+        events: [{ name: "foo", data: { id: "123" } }],
+      });
+
+      test("resolves with a matching incoming event", async () => {
+        const { result } = await t.execute({
+          incomingEvents: [
+            { name: "bar", data: { id: "456" } },
+            { name: "bar", data: { id: "123" }, ts: 1 },
+          ],
+        });
+
+        expect(result).toEqual({ name: "bar", data: { id: "123" }, ts: 1 });
+      });
+
+      test("times out with no matching incoming event", async () => {
+        const { result } = await t.execute({
+          incomingEvents: [{ name: "bar", data: { id: "456" } }],
+        });
+
+        expect(result).toBeNull();
+      });
+    });
+
+    describe("invoke", () => {
+      const child = inngest.createFunction(
+        { id: "child" },
+        { event: "child" },
+        () => "child"
+      );
+
+      const fn = inngest.createFunction(
+        { id: "parent" },
+        { event: "foo" },
+        async ({ step }) => {
+          try {
+            return await step.invoke("invoke-child", {
+              function: child,
+              data: { foo: "bar" },
+            });
+          } catch (err) {
+            return (err as Error).message;
+          }
+        }
+      );
+
+      test("uses the stubbed result", async () => {
+        const invoke = jest.fn(() => "stubbed");
+
+        const { result } = await new InngestTestEngine({
+          function: fn,
+          invoke,
+        }).execute();
+
+        expect(result).toBe("stubbed");
+        expect(invoke).toHaveBeenCalledWith({
+          id: "invoke-child",
+          functionId: "test-child",
+          payload: { data: { foo: "bar" } },
+        });
+      });
+
+      test("rejects if the stub throws", async () => {
+        const { result } = await new InngestTestEngine({
+          function: fn,
+          invoke: () => {
+            throw new Error("nope");
+          },
+        }).execute();
+
+        expect(result).toBe("nope");
+      });
+
+      test("throws if no stub is given", async () => {
+        await expect(
+          new InngestTestEngine({ function: fn }).execute()
+        ).rejects.toThrow("no `invoke` option was given");
+      });
+
+      test("collects results of many invocations", async () => {
+        const many = inngest.createFunction(
+          { id: "parent-many" },
+          { event: "foo" },
+          async ({ step }) => {
+            const results = await step.invokeMany("invoke-children", {
+              function: child,
+              payloads: [1, 2, 3].map((n) => ({ data: { n } })),
+              concurrency: 2,
+            });
+
+            return results.map((r) => (r.ok ? r.data : r.error.message));
+          }
+        );
+
+        const { result } = await new InngestTestEngine({
+          function: many,
+          invoke: ({ payload }) => {
+            const { n } = payload.data as { n: number };
+            if (n === 2) {
+              throw new Error("nope");
+            }
+
+            return n * 10;
+          },
+        }).execute();
+
+        expect(result).toEqual([10, "nope", 30]);
+      });
+    });
+
+    describe("mocked steps", () => {
+      const chargeCard = jest.fn(() => ({ charged: true }));
+
+      const fn = inngest.createFunction(
+        { id: "checkout" },
+        { event: "foo" },
+        async ({ step }) => {
+          try {
+            const charge = await step.run("charge-card", chargeCard);
+            await step.sleep("wait", "1d");
+
+            return charge;
+          } catch (err) {
+            return { declined: (err as Error).message };
+          }
+        }
+      );
+
+      beforeEach(() => {
+        chargeCard.mockClear();
+      });
+
+      test("resolves a step with mocked data without running it", async () => {
+        const { result, timeline } = await new InngestTestEngine({
+          function: fn,
+          steps: [mockStep("charge-card", { data: { charged: "mocked" } })],
+        }).execute();
+
+        expect(result).toEqual({ charged: "mocked" });
+        expect(chargeCard).not.toHaveBeenCalled();
+        expect(timeline).toMatchObject([
+          { id: "charge-card", mocked: true, attempts: 0 },
+          { id: "wait", mocked: false },
+        ]);
+      });
+
+      test("rejects a step with a mocked error", async () => {
+        const { result } = await new InngestTestEngine({
+          function: fn,
+          steps: [mockStep("charge-card", { error: new Error("declined") })],
+        }).execute();
+
+        expect(result).toEqual({ declined: "declined" });
+        expect(chargeCard).not.toHaveBeenCalled();
+      });
+
+      test("can mock any step tool", async () => {
+        const { result } = await new InngestTestEngine({
+          function: fn,
+          steps: [mockStep("wait", { error: new Error("woke early") })],
+        }).execute();
+
+        expect(result).toEqual({ declined: "woke early" });
+        expect(chargeCard).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe("retries", () => {
+      test("retries a failing step until it succeeds", async () => {
+        let calls = 0;
+
+        const fn = inngest.createFunction(
+          { id: "flaky" },
+          { event: "foo" },
+          async ({ step }) => {
+            return step.run("flaky", () => {
+              if (++calls < 3) {
+                throw new Error("flaky");
+              }
+
+              return calls;
+            });
+          }
+        );
+
+        const { result, timeline } = await new InngestTestEngine({
+          function: fn,
+        }).execute();
+
+        expect(result).toBe(3);
+        expect(timeline).toEqual([
+          expect.objectContaining({ id: "flaky", attempts: 3 }),
+        ]);
+      });
+
+      test("memoizes a step error once retries are exhausted", async () => {
+        const fn = inngest.createFunction(
+          { id: "failing", retries: 1 },
+          { event: "foo" },
+          async ({ step }) => {
+            await step.run("failing", () => {
+              throw new Error("failing");
+            });
+          }
+        );
+
+        const { error, timeline } = await new InngestTestEngine({
+          function: fn,
+        }).execute();
+
+        expect(error).toMatchObject({ name: "Error", message: "failing" });
+        expect(timeline).toMatchObject([
+          { id: "failing", attempts: 2, error: { message: "failing" } },
+        ]);
+      });
+
+      test("uses a step's own retries over the function's", async () => {
+        const fn = inngest.createFunction(
+          { id: "step-retries", retries: 5 },
+          { event: "foo" },
+          async ({ step }) => {
+            await step.run({ id: "failing", retries: 1 }, () => {
+              throw new Error("failing");
+            });
+          }
+        );
+
+        const { error, timeline } = await new InngestTestEngine({
+          function: fn,
+        }).execute();
+
+        expect(error).toMatchObject({ message: "failing" });
+        expect(timeline).toMatchObject([
+          { id: "failing", attempts: 2, error: { message: "failing" } },
+        ]);
+      });
+
+      test("throws a StepTimeoutError once a step times out on every attempt", async () => {
+        const fn = inngest.createFunction(
+          { id: "slow", retries: 1 },
+          { event: "foo" },
+          async ({ step }) => {
+            try {
+              await step.run({ id: "slow", timeout: 10 }, () => {
+                return new Promise(() => undefined);
+              });
+            } catch (err) {
+              return (err as Error).name;
+            }
+          }
+        );
+
+        const { result, timeline } = await new InngestTestEngine({
+          function: fn,
+        }).execute();
+
+        expect(result).toBe("StepTimeoutError");
+        expect(timeline).toMatchObject([{ id: "slow", attempts: 2 }]);
+      });
+
+      test("does not retry a NonRetriableError", async () => {
+        const fn = jest.fn(() => {
+          throw new NonRetriableError("stop");
+        });
+
+        const { error } = await new InngestTestEngine({
+          function: inngest.createFunction(
+            { id: "non-retriable" },
+            { event: "foo" },
+            fn
+          ),
+        }).execute();
+
+        expect(error).toMatchObject({ name: "NonRetriableError" });
+        expect(fn).toHaveBeenCalledTimes(1);
+      });
+    });
+    describe("compensations", () => {
+      const createSaga = (error: () => Error, retries?: 0 | 1) => {
+        const undo = jest.fn((id: string) => `undo ${id}`);
+
+        const fn = inngest.createFunction(
+          { id: "saga", retries },
+          { event: "foo" },
+          async ({ step }) => {
+            await step.run("reserve", () => "reserve", { undo });
+            await step.run("charge", () => "charge", { undo });
+            await step.run("notify", () => "notify");
+            throw error();
+          }
+        );
+
+        return { fn, undo };
+      };
+
+      test("runs compensations in reverse order when a NonRetriableError is thrown", async () => {
+        const { fn, undo } = createSaga(() => new NonRetriableError("stop"));
+
+        const { error, timeline } = await new InngestTestEngine({
+          function: fn,
+        }).execute();
+
+        expect(error).toMatchObject({
+          name: "NonRetriableError",
+          message: "stop",
+        });
+        expect(undo.mock.calls).toEqual([["charge"], ["reserve"]]);
+        expect(timeline.map((entry) => entry.id)).toEqual([
+          "reserve",
+          "charge",
+          "notify",
+          "charge.undo",
+          "reserve.undo",
+        ]);
+        expect(timeline[3]).toMatchObject({
+          displayName: "charge: undo",
+          data: "undo charge",
+        });
+      });
+
+      test("runs compensations only once retries are exhausted", async () => {
+        const error = jest.fn(() => new Error("failing"));
+        const { fn, undo } = createSaga(error, 1);
+
+        const { error: runError } = await new InngestTestEngine({
+          function: fn,
+        }).execute();
+
+        expect(runError).toMatchObject({ message: "failing" });
+        expect(undo).toHaveBeenCalledTimes(2);
+        expect(error.mock.calls.length).toBeGreaterThan(2);
+      });
+
+      test("does not run compensations if the function succeeds", async () => {
+        const undo = jest.fn();
+
+        const fn = inngest.createFunction(
+          { id: "saga" },
+          { event: "foo" },
+          async ({ step }) => {
+            return step.run("reserve", () => "reserve", { undo });
+          }
+        );
+
+        const { result } = await new InngestTestEngine({
+          function: fn,
+        }).execute();
+
+        expect(result).toBe("reserve");
+        expect(undo).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe("replay", () => {
+    const recordRun = async (
+      fn: InngestFunction.Any
+    ): Promise<InngestTestEngine.RunHistory> => {
+      const { timeline } = await new InngestTestEngine({
+        function: fn,
+      }).execute();
+
+      return {
+        events: [{ name: "foo", data: {} }],
+        steps: timeline.reduce(
+          (acc, { hashedId, data }) => ({
+            ...acc,
+            [hashedId]: { type: "data", data },
+          }),
+          {}
+        ),
+        stepCompletionOrder: timeline.map(({ hashedId }) => hashedId),
+      };
+    };
+
+    const createFn = (ids: string[]) => {
+      return inngest.createFunction(
+        { id: "replayed" },
+        { event: "foo" },
+        async ({ step }) => {
+          for (const id of ids) {
+            await step.run(id, () => id);
+          }
+        }
+      );
+    };
+
+    let history: InngestTestEngine.RunHistory;
+
+    beforeAll(async () => {
+      history = await recordRun(createFn(["a", "b", "c"]));
+    });
+
+    test("reports no divergence for unchanged code", async () => {
+      const report = await new InngestTestEngine({
+        function: createFn(["a", "b", "c"]),
+      }).replay(history);
+
+      expect(report.ok).toBe(true);
+      expect(report.divergences).toEqual([]);
+      expect(report.result).toEqual({ type: "function-resolved", data: null });
+    });
+
+    test("reports no divergence for new steps after the history", async () => {
+      const report = await new InngestTestEngine({
+        function: createFn(["a", "b", "c", "d"]),
+      }).replay(history);
+
+      expect(report.ok).toBe(true);
+      expect(report.result.type).toBe("steps-found");
+    });
+
+    test("reports renamed steps", async () => {
+      const report = await new InngestTestEngine({
+        function: createFn(["a", "renamed", "c"]),
+      }).replay(history);
+
+      expect(report.ok).toBe(false);
+      expect(report.divergences).toEqual([
+        expect.objectContaining({
+          type: "new-step",
+          position: 1,
+          id: "renamed",
+        }),
+        expect.objectContaining({ type: "missing-step", position: 1 }),
+        expect.objectContaining({ type: "missing-step", position: 2 }),
+      ]);
+    });
+
+    test("reports reordered steps", async () => {
+      const report = await new InngestTestEngine({
+        function: createFn(["a", "c", "b"]),
+      }).replay(history);
+
+      expect(report.ok).toBe(false);
+      expect(report.divergences).toEqual([
+        expect.objectContaining({
+          type: "reordered-step",
+          position: 1,
+          id: "b",
+        }),
+      ]);
+    });
+
+    test("reports removed steps", async () => {
+      const report = await new InngestTestEngine({
+        function: createFn(["a", "b"]),
+      }).replay(history);
+
+      expect(report.ok).toBe(false);
+      expect(report.divergences).toEqual([
+        expect.objectContaining({ type: "missing-step", position: 2 }),
+      ]);
+    });
+  });
+
+  describe("checkDeterminism", () => {
+    const createFn = (
+      handler: (ctx: {
+        event: EventPayload;
+        step: GetStepTools<typeof inngest>;
+      }) => Promise<void>
+    ) => {
+      return inngest.createFunction(
+        { id: "versioned" },
+        { event: "foo" },
+        handler
+      );
+    };
+
+    const previous = createFn(async ({ step }) => {
+      await step.run("a", () => "a");
+      await step.run("b", () => "b");
+      await Promise.all([
+        step.run("parallel", () => 1),
+        step.run("parallel", () => 2),
+      ]);
+    });
+
+    const t = new InngestTestEngine({ function: previous });
+
+    test("reports no changes for the same code", async () => {
+      const report = await t.checkDeterminism(previous);
+
+      expect(report.ok).toBe(true);
+      expect(report.changes).toEqual([]);
+      expect(report.previous).toMatchObject([
+        { id: "a", group: 0 },
+        { id: "b", group: 1 },
+        { id: "parallel", group: 2 },
+        { id: "parallel:1", group: 2 },
+      ]);
+    });
+
+    test("allows new steps after existing steps", async () => {
+      const report = await t.checkDeterminism(
+        createFn(async ({ step }) => {
+          await step.run("a", () => "a");
+          await step.run("b", () => "b");
+          await Promise.all([
+            step.run("parallel", () => 1),
+            step.run("parallel", () => 2),
+          ]);
+          await step.sleep("new", "1s");
+        })
+      );
+
+      expect(report.ok).toBe(true);
+    });
+
+    test("flags renamed steps", async () => {
+      const report = await t.checkDeterminism(
+        createFn(async ({ step }) => {
+          await step.run("a", () => "a");
+          await step.run("renamed", () => "b");
+          await Promise.all([
+            step.run("parallel", () => 1),
+            step.run("parallel", () => 2),
+          ]);
+        })
+      );
+
+      expect(report.ok).toBe(false);
+      expect(report.changes).toEqual([
+        expect.objectContaining({
+          type: "renamed-step",
+          id: "renamed",
+          previousId: "b",
+        }),
+      ]);
+    });
+
+    test("flags steps moved into unmet conditionals", async () => {
+      const report = await t.checkDeterminism(
+        createFn(async ({ event, step }) => {
+          if ((event.data as { flag?: boolean }).flag) {
+            await step.run("a", () => "a");
+          }
+          await step.run("b", () => "b");
+          await Promise.all([
+            step.run("parallel", () => 1),
+            step.run("parallel", () => 2),
+          ]);
+        })
+      );
+
+      expect(report.changes).toEqual([
+        expect.objectContaining({ type: "removed-step", id: "a" }),
+      ]);
+    });
+
+    test("flags new steps before existing steps", async () => {
+      const report = await t.checkDeterminism(
+        createFn(async ({ step }) => {
+          await step.run("new", () => "new");
+          await step.run("a", () => "a");
+          await step.run("b", () => "b");
+          await Promise.all([
+            step.run("parallel", () => 1),
+            step.run("parallel", () => 2),
+          ]);
+        })
+      );
+
+      expect(report.changes).toEqual([
+        expect.objectContaining({ type: "added-step", id: "new" }),
+      ]);
+    });
+
+    test("flags reordered steps", async () => {
+      const report = await t.checkDeterminism(
+        createFn(async ({ step }) => {
+          await step.run("b", () => "b");
+          await step.run("a", () => "a");
+          await Promise.all([
+            step.run("parallel", () => 1),
+            step.run("parallel", () => 2),
+          ]);
+        })
+      );
+
+      expect(report.changes).toEqual([
+        expect.objectContaining({
+          type: "reordered-step",
+          id: "b",
+          relatedId: "a",
+        }),
+      ]);
+    });
+
+    test("flags parallel steps sharing an ID that have moved", async () => {
+      const report = await new InngestTestEngine({
+        function: createFn(async ({ step }) => {
+          await Promise.all([
+            step.run("parallel", () => 1),
+            step.run("other", () => "other"),
+            step.run("parallel", () => 2),
+          ]);
+        }),
+      }).checkDeterminism(
+        createFn(async ({ step }) => {
+          await Promise.all([
+            step.run("parallel", () => 2),
+            step.run("parallel", () => 1),
+            step.run("other", () => "other"),
+          ]);
+        })
+      );
+
+      expect(report.changes).toEqual([
+        expect.objectContaining({
+          type: "reordered-parallel-step",
+          id: "parallel:1",
+        }),
+      ]);
+    });
+
+    test("doesn't compare the output of steps", async () => {
+      // Output such as timestamps or IDs can differ between runs
+      const report = await t.checkDeterminism(
+        createFn(async ({ step }) => {
+          await step.run("a", () => "a");
+          await step.run("b", () => "b");
+          await Promise.all([
+            step.run("parallel", () => 2),
+            step.run("parallel", () => 1),
+          ]);
+        })
+      );
+
+      expect(report.ok).toBe(true);
+    });
+  });
+});
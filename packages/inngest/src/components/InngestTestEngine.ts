@@ -0,0 +1,1071 @@
+import { stepsSchemas } from "../api/schema";
+import { internalEvents } from "../helpers/consts";
+import { serializeError } from "../helpers/errors";
+import { getFunctionRetries } from "../helpers/functions";
+import { type MaybePromise } from "../helpers/types";
+import { StepOpCode, type EventPayload, type OutgoingOp } from "../types";
+import { type InngestFunction } from "./InngestFunction";
+import {
+  STEP_INDEXING_SUFFIX,
+  type FoundStep,
+  type MockedStep,
+} from "./InngestStepTools";
+import {
+  ExecutionVersion,
+  type ExecutionResult,
+  type MemoizedOp,
+} from "./execution/InngestExecution";
+
+/**
+ * The number of executions a single test run may trigger before we assume that
+ * the function will never finish and bail out.
+ */
+const maxExecutions = 1000;
+
+/**
+ * An engine used to run an Inngest function entirely locally, without the need
+ * for an Inngest Server or Dev Server.
+ *
+ * The engine acts as the executor, repeatedly driving the function via the
+ * same execution engine that's used when serving functions, resolving each
+ * step as it's found: `step.run()` is executed, `step.sleep()` and
+ * `step.sleepUntil()` are fast-forwarded, `step.waitForEvent()` is resolved
+ * using events given to the engine and `step.invoke()` is stubbed. Any step
+ * can also be mocked by its ID using `mockStep()`.
+ *
+ * @example
+ * ```ts
+ * const t = new InngestTestEngine({ function: myFn });
+ *
+ * const { result, timeline } = await t.execute({
+ *   events: [{ name: "app/user.created", data: { id: "123" } }],
+ * });
+ * ```
+ *
+ * @public
+ */
+export class InngestTestEngine {
+  protected options: InngestTestEngine.Options;
+
+  constructor(options: InngestTestEngine.Options) {
+    this.options = options;
+  }
+
+  /**
+   * Execute the function to completion, returning its final output along with
+   * an ordered timeline of every step that was completed.
+   *
+   * Any options given here will override those given when creating the
+   * engine.
+   */
+  public async execute(
+    inlineOpts?: Partial<InngestTestEngine.Options>
+  ): Promise<InngestTestEngine.ExecutionOutput> {
+    return this.drive(this.createRun({ ...this.options, ...inlineOpts }));
+  }
+
+  /**
+   * Compare the step graph of this function with that of the given next
+   * version of it, flagging any changes that would break memoization for runs
+   * that are in-flight when the next version is deployed.
+   *
+   * Both versions are executed to completion using the same options, so any
+   * steps with side effects should be mocked using `mockStep()`. Branches not
+   * taken by the given events can't be compared, so check each scenario that
+   * matters with its own events.
+   *
+   * Steps are compared using the IDs given to them, including any index added
+   * when the same ID is used more than once. Reordering steps that run in
+   * parallel with unique IDs is safe and is not flagged. Steps that share an
+   * ID are compared only by their position, so swapping the work done by two
+   * of them in place can't be detected; give parallel steps unique IDs.
+   *
+   * @example
+   * ```ts
+   * const { ok, changes } = await new InngestTestEngine({
+   *   function: previousFn,
+   * }).checkDeterminism(nextFn);
+   * ```
+   */
+  public async checkDeterminism(
+    fn: InngestFunction.Any
+  ): Promise<InngestTestEngine.DeterminismReport> {
+    const previous = this.createRun(this.options);
+    await this.drive(previous);
+
+    const next = this.createRun({ ...this.options, function: fn });
+    await this.drive(next);
+
+    const previousGraph = toStepGraph(previous);
+    const nextGraph = toStepGraph(next);
+    const changes = compareStepGraphs(previousGraph, nextGraph);
+
+    return {
+      ok: changes.length === 0,
+      changes,
+      previous: previousGraph,
+      next: nextGraph,
+    };
+  }
+
+  /**
+   * Drive a run of the function to completion, acting as the executor.
+   */
+  private async drive(
+    run: TestRun
+  ): Promise<InngestTestEngine.ExecutionOutput> {
+    for (let attempt = 0; run.executions < maxExecutions; ) {
+      const result = await this.executeOnce(run, { attempt });
+
+      switch (result.type) {
+        case "function-resolved":
+          return { result: result.data, timeline: run.timeline };
+
+        case "function-rejected":
+          if (result.retriable !== false && attempt < run.retries) {
+            attempt++;
+            continue;
+          }
+
+          return { error: result.error, timeline: run.timeline };
+
+        case "steps-found":
+          for (const step of result.steps) {
+            run.stepGroups[step.id] = run.groups;
+            await this.resolveStep(run, step);
+          }
+
+          run.groups++;
+
+          attempt = 0;
+          continue;
+
+        default:
+          throw new Error(
+            `Unexpected "${
+              result.type
+            }" result when discovering steps for function "${run.options.function.id()}"`
+          );
+      }
+    }
+
+    throw new Error(
+      `Function "${run.options.function.id()}" did not finish after ${maxExecutions} executions`
+    );
+  }
+
+  /**
+   * Replay a run's recorded history against the current code of the function,
+   * reporting anywhere the code diverges from the history. No steps are run
+   * during a replay.
+   *
+   * The history is walked in the order that steps completed. At each point,
+   * the code must report the next recorded step given only the steps that
+   * completed before it, just as it would if a run were in-flight at that
+   * point when the new code was deployed.
+   *
+   * @example
+   * ```ts
+   * const steps = await api.getRunSteps(runId, ExecutionVersion.V1);
+   *
+   * const { ok, divergences } = await new InngestTestEngine({
+   *   function: fn,
+   * }).replay({ events, steps: steps.value });
+   * ```
+   */
+  public async replay(
+    history: InngestTestEngine.RunHistory
+  ): Promise<InngestTestEngine.ReplayReport> {
+    const recordedState = Object.entries(
+      stepsSchemas[ExecutionVersion.V1].parse(history.steps)
+    ).reduce<Record<string, MemoizedOp>>((acc, [id, result]) => {
+      return {
+        ...acc,
+        [id]:
+          result.type === "data"
+            ? // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+              { id, data: result.data }
+            : { id, error: result.error },
+      };
+    }, {});
+
+    const order = history.stepCompletionOrder ?? Object.keys(recordedState);
+    const run = this.createRun({ ...this.options, events: history.events });
+    const divergences: InngestTestEngine.ReplayDivergence[] = [];
+
+    const toDivergence = (
+      type: InngestTestEngine.ReplayDivergence["type"],
+      position: number,
+      hashedId: string,
+      step?: OutgoingOp
+    ): InngestTestEngine.ReplayDivergence => ({
+      type,
+      position,
+      hashedId,
+      displayName: step?.displayName,
+    });
+
+    /**
+     * Walk the history, making sure that the code reports each recorded step
+     * given only the state that came before it.
+     */
+    for (let position = 0; position < order.length; position++) {
+      const expected = order[position] as string;
+      const completed = order.slice(0, position);
+
+      run.stepCompletionOrder = completed;
+      run.stepState = completed.reduce<Record<string, MemoizedOp>>(
+        (acc, id) => {
+          const op = recordedState[id];
+
+          return op ? { ...acc, [id]: op } : acc;
+        },
+        {}
+      );
+
+      const result = await this.executeOnce(run, { attempt: 0 });
+      const found = result.type === "steps-found" ? result.steps : [];
+
+      if (found.some((step) => step.id === expected)) {
+        continue;
+      }
+
+      divergences.push(
+        ...found
+          .filter((step) => !recordedState[step.id])
+          .map((step) => toDivergence("new-step", position, step.id, step))
+      );
+
+      const foundLaterStep = found.some((step) => {
+        return order.indexOf(step.id) > position;
+      });
+
+      divergences.push(
+        toDivergence(
+          foundLaterStep ? "reordered-step" : "missing-step",
+          position,
+          expected
+        )
+      );
+
+      break;
+    }
+
+    /**
+     * Finally, execute with the entire history to find any recorded steps
+     * that the code no longer reaches at all.
+     */
+    const seen = new Set<string>();
+    run.stepCompletionOrder = order;
+    run.stepState = recordedState;
+    run.onStepFound = (step) => seen.add(step.hashedId);
+    const result = await this.executeOnce(run, { attempt: 0 });
+
+    order.forEach((hashedId, position) => {
+      const reported = divergences.some((divergence) => {
+        return divergence.hashedId === hashedId;
+      });
+
+      if (!seen.has(hashedId) && !reported) {
+        divergences.push(toDivergence("missing-step", position, hashedId));
+      }
+    });
+
+    return {
+      ok: divergences.length === 0,
+      divergences: divergences.map((divergence) => ({
+        ...divergence,
+        id: run.stepIds[divergence.hashedId],
+      })),
+      result,
+    };
+  }
+
+  /**
+   * Create the state for a single run of the function.
+   */
+  private createRun(options: InngestTestEngine.Options): TestRun {
+    const events: EventPayload[] = options.events?.length
+      ? options.events
+      : [{ name: internalEvents.FunctionInvoked, data: {} }];
+
+    return {
+      options,
+      events: events.map(withEventDefaults) as [
+        EventPayload,
+        ...EventPayload[],
+      ],
+      incomingEvents: [...(options.incomingEvents ?? [])],
+      retries: getFunctionRetries(options.function),
+      stepState: {},
+      stepCompletionOrder: [],
+      stepIds: {},
+      stepGroups: {},
+      groups: 0,
+      timeline: [],
+      executions: 0,
+    };
+  }
+
+  /**
+   * Run a single execution of the function with the current state, optionally
+   * requesting that a particular step be run.
+   */
+  private executeOnce(
+    run: TestRun,
+    {
+      attempt,
+      requestedRunStep,
+    }: { attempt: number; requestedRunStep?: string }
+  ): Promise<ExecutionResult> {
+    run.executions++;
+
+    /**
+     * Execution mutates the state it's given to track which steps have been
+     * seen, so give each execution its own copy.
+     */
+    const stepState = Object.entries(run.stepState).reduce<
+      Record<string, MemoizedOp>
+    >((acc, [id, op]) => ({ ...acc, [id]: { ...op } }), {});
+
+    const execution = run.options.function["createExecution"]({
+      version: ExecutionVersion.V1,
+      partialOptions: {
+        runId: testRunId,
+        data: {
+          event: run.events[0],
+          events: run.events,
+          runId: testRunId,
+          attempt,
+        },
+        stepState,
+        stepCompletionOrder: [...run.stepCompletionOrder],
+        requestedRunStep,
+        disableImmediateExecution: true,
+        reqArgs: [],
+        onStepFound: (step) => {
+          run.stepIds[step.hashedId] = step.id;
+          run.onStepFound?.(step);
+        },
+      },
+    });
+
+    return execution.start();
+  }
+
+  /**
+   * Resolve a step that has been reported by the function, acting as the
+   * executor would.
+   */
+  private async resolveStep(run: TestRun, step: OutgoingOp): Promise<void> {
+    const id = this.getStepId(run, step);
+    const mock = run.options.steps?.find((mock) => mock.id === id);
+
+    if (mock) {
+      return this.completeStep(
+        run,
+        step,
+        "error" in mock
+          ? { error: serializeError(mock.error) }
+          : { data: mock.data ?? null },
+        { attempts: 0, mocked: true }
+      );
+    }
+
+    switch (step.op) {
+      case StepOpCode.StepPlanned:
+        return this.runStep(run, step);
+
+      case StepOpCode.Sleep:
+        return this.completeStep(run, step, { data: null });
+
+      case StepOpCode.WaitForEvent:
+        return this.completeStep(run, step, {
+          data: this.receiveEvent(run, step),
+        });
+
+      case StepOpCode.InvokeFunction:
+        return this.completeStep(run, step, await this.invoke(run, step));
+
+      default:
+        throw new Error(
+          `Unable to resolve step "${this.getStepId(
+            run,
+            step
+          )}" with unknown op "${step.op}"`
+        );
+    }
+  }
+
+  /**
+   * Run a step that the function has planned, retrying it as the executor
+   * would until it succeeds or runs out of attempts.
+   */
+  private async runStep(run: TestRun, step: OutgoingOp): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      const result = await this.executeOnce(run, {
+        attempt,
+        requestedRunStep: step.id,
+      });
+
+      if (result.type !== "step-ran") {
+        throw new Error(
+          `Unexpected "${
+            result.type
+          }" result when running step "${this.getStepId(run, step)}"`
+        );
+      }
+
+      if (result.step.op !== StepOpCode.StepError) {
+        return this.completeStep(
+          run,
+          step,
+          { data: result.step.data },
+          { attempts: attempt + 1 }
+        );
+      }
+
+      if (result.retriable === false || attempt >= run.retries) {
+        return this.completeStep(
+          run,
+          step,
+          { error: result.step.error },
+          { attempts: attempt + 1 }
+        );
+      }
+    }
+  }
+
+  /**
+   * Find the first unused incoming event that matches the given
+   * `step.waitForEvent()` op, consuming it if found.
+   */
+  private receiveEvent(run: TestRun, step: OutgoingOp): EventPayload | null {
+    const index = run.incomingEvents.findIndex((event) => {
+      return (
+        event.name === step.name &&
+        matchesExpression(step.opts?.if as string | undefined, {
+          event: run.events[0],
+          async: event,
+        })
+      );
+    });
+
+    if (index === -1) {
+      return null;
+    }
+
+    const [event] = run.incomingEvents.splice(index, 1) as [EventPayload];
+
+    return withEventDefaults(event);
+  }
+
+  /**
+   * Stub the result of a `step.invoke()` op using the `invoke` option.
+   */
+  private async invoke(
+    run: TestRun,
+    step: OutgoingOp
+  ): Promise<Pick<MemoizedOp, "data" | "error">> {
+    const id = this.getStepId(run, step);
+
+    if (!run.options.invoke) {
+      throw new Error(
+        `Step "${id}" invoked a function, but no \`invoke\` option was given to stub the result`
+      );
+    }
+
+    try {
+      const data = await run.options.invoke({
+        id,
+        functionId: step.opts?.function_id as string,
+        payload: (step.opts?.payload ??
+          {}) as InngestTestEngine.Invocation["payload"],
+      });
+
+      return { data: data ?? null };
+    } catch (err) {
+      return { error: serializeError(err) };
+    }
+  }
+
+  /**
+   * Memoize the result of a step, ready for the next execution.
+   */
+  private completeStep(
+    run: TestRun,
+    step: OutgoingOp,
+    result: Pick<MemoizedOp, "data" | "error">,
+    {
+      attempts = 1,
+      mocked = false,
+    }: { attempts?: number; mocked?: boolean } = {}
+  ): void {
+    run.stepState[step.id] = { id: step.id, ...result };
+    run.stepCompletionOrder.push(step.id);
+
+    run.timeline.push({
+      id: this.getStepId(run, step),
+      hashedId: step.id,
+      op: step.op,
+      name: step.name,
+      displayName: step.displayName,
+      attempts,
+      mocked,
+      ...result,
+    });
+  }
+
+  private getStepId(run: TestRun, step: OutgoingOp): string {
+    return run.stepIds[step.id] ?? step.id;
+  }
+}
+
+/**
+ * The run ID given to every execution triggered by the test engine.
+ */
+const testRunId = "test-run";
+
+/**
+ * The state of a single run of a function within the test engine.
+ */
+interface TestRun {
+  options: InngestTestEngine.Options;
+  events: [EventPayload, ...EventPayload[]];
+  incomingEvents: EventPayload[];
+  retries: number;
+  stepState: Record<string, MemoizedOp>;
+  stepCompletionOrder: string[];
+
+  /**
+   * A map of hashed step IDs to the IDs given by the user.
+   */
+  stepIds: Record<string, string>;
+
+  /**
+   * A map of hashed step IDs to the index of the group of steps they were
+   * reported with. Steps in the same group were reported in parallel.
+   */
+  stepGroups: Record<string, number>;
+  groups: number;
+  timeline: InngestTestEngine.TimelineEntry[];
+  executions: number;
+  onStepFound?: (step: Readonly<FoundStep>) => void;
+}
+
+/**
+ * Matches the index added to a step's ID when the same ID is used more than
+ * once.
+ */
+const stepIndexRegex = new RegExp(`${STEP_INDEXING_SUFFIX}\\d+$`);
+
+/**
+ * Create the step graph of a completed run.
+ */
+const toStepGraph = (run: TestRun): InngestTestEngine.StepGraphNode[] => {
+  return run.timeline.map((entry) => ({
+    ...entry,
+    group: run.stepGroups[entry.hashedId] ?? 0,
+  }));
+};
+
+/**
+ * Compare the step graphs of two versions of a function, returning any
+ * changes that would break memoization for in-flight runs.
+ */
+const compareStepGraphs = (
+  previous: InngestTestEngine.StepGraphNode[],
+  next: InngestTestEngine.StepGraphNode[]
+): InngestTestEngine.DeterminismChange[] => {
+  const changes: InngestTestEngine.DeterminismChange[] = [];
+  const previousById = new Map(previous.map((node) => [node.id, node]));
+  const nextById = new Map(next.map((node) => [node.id, node]));
+
+  const removed = previous.filter((node) => !nextById.has(node.id));
+  const added = next.filter((node) => !previousById.has(node.id));
+  const renamed = new Set<InngestTestEngine.StepGraphNode>();
+
+  /**
+   * A removed step with a new step of the same type in its place is likely to
+   * have been renamed.
+   */
+  removed.forEach((node) => {
+    const replacement = added.find((addedNode) => {
+      return (
+        !renamed.has(addedNode) &&
+        addedNode.group === node.group &&
+        addedNode.op === node.op
+      );
+    });
+
+    if (replacement) {
+      renamed.add(replacement);
+
+      changes.push({
+        type: "renamed-step",
+        id: replacement.id,
+        hashedId: replacement.hashedId,
+        previousId: node.id,
+      });
+    } else {
+      changes.push({
+        type: "removed-step",
+        id: node.id,
+        hashedId: node.hashedId,
+      });
+    }
+  });
+
+  /**
+   * New steps are only a problem if they're found before existing steps, as
+   * in-flight runs will have already moved past them.
+   */
+  const lastExistingGroup = Math.max(
+    -1,
+    ...next.filter((node) => previousById.has(node.id)).map((n) => n.group)
+  );
+
+  added.forEach((node) => {
+    if (!renamed.has(node) && node.group < lastExistingGroup) {
+      changes.push({
+        type: "added-step",
+        id: node.id,
+        hashedId: node.hashedId,
+      });
+    }
+  });
+
+  /**
+   * Existing steps must still be found in the same order relative to one
+   * another, though steps that were found together can be found in any order.
+   */
+  const existing = previous.filter((node) => nextById.has(node.id));
+
+  existing.forEach((node) => {
+    const nextGroup = nextById.get(node.id)?.group ?? 0;
+
+    const overtaken = existing.find((other) => {
+      return (
+        other.group < node.group &&
+        (nextById.get(other.id)?.group ?? 0) > nextGroup
+      );
+    });
+
+    if (overtaken) {
+      changes.push({
+        type: "reordered-step",
+        id: node.id,
+        hashedId: node.hashedId,
+        relatedId: overtaken.id,
+      });
+    }
+  });
+
+  /**
+   * Steps that share an ID are told apart only by the order in which they're
+   * found, so if they're now found in different positions among existing
+   * steps then the parallel work using that ID has been reordered.
+   *
+   * Only hashed IDs and positions are compared; the output of a step can
+   * differ between runs without the step having changed.
+   */
+  const previousPositions = toStepPositions(existing);
+  const nextPositions = toStepPositions(
+    next.filter((node) => previousById.has(node.id))
+  );
+
+  const indexedSteps = existing.reduce<
+    Record<string, InngestTestEngine.StepGraphNode[]>
+  >((acc, node) => {
+    const baseId = node.id.replace(stepIndexRegex, "");
+
+    return { ...acc, [baseId]: [...(acc[baseId] ?? []), node] };
+  }, {});
+
+  Object.values(indexedSteps).forEach((nodes) => {
+    if (nodes.length < 2) {
+      return;
+    }
+
+    nodes.forEach((node) => {
+      if (
+        previousPositions.get(node.hashedId) !==
+        nextPositions.get(node.hashedId)
+      ) {
+        changes.push({
+          type: "reordered-parallel-step",
+          id: node.id,
+          hashedId: node.hashedId,
+        });
+      }
+    });
+  });
+
+  return changes;
+};
+
+/**
+ * A map of hashed step IDs to their position among the given steps, made up
+ * of the order of the group they were found in and their index within it.
+ */
+const toStepPositions = (
+  nodes: InngestTestEngine.StepGraphNode[]
+): Map<string, string> => {
+  const groups = [...new Set(nodes.map((node) => node.group))].sort(
+    (a, b) => a - b
+  );
+  const groupSizes: Record<number, number> = {};
+
+  return new Map(
+    nodes.map((node) => {
+      const index = groupSizes[node.group] ?? 0;
+      groupSizes[node.group] = index + 1;
+
+      return [node.hashedId, `${groups.indexOf(node.group)}:${index}`];
+    })
+  );
+};
+
+/**
+ * Fill in any optional fields of an event as they would be when received from
+ * Inngest.
+ */
+const withEventDefaults = (event: EventPayload): EventPayload => ({
+  ...event,
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+  data: event.data ?? {},
+  ts: event.ts ?? Date.now(),
+});
+
+/**
+ * Naively evaluate a `step.waitForEvent()` `if` expression against the
+ * triggering event and the incoming event.
+ *
+ * Only comparisons joined with `&&` are supported, such as
+ * `event.data.userId == async.data.userId`; any clause that can't be
+ * understood is considered a match.
+ */
+const matchesExpression = (
+  expression: string | undefined,
+  scope: { event: EventPayload; async: EventPayload }
+): boolean => {
+  if (!expression) {
+    return true;
+  }
+
+  return expression.split("&&").every((clause) => {
+    const match = clause.match(/^\s*(.+?)\s*(==|!=)\s*(.+?)\s*$/);
+    if (!match) {
+      return true;
+    }
+
+    const [, left, operator, right] = match as [string, string, string, string];
+
+    try {
+      const equal =
+        JSON.stringify(resolveOperand(left, scope)) ===
+        JSON.stringify(resolveOperand(right, scope));
+
+      return operator === "==" ? equal : !equal;
+    } catch {
+      return true;
+    }
+  });
+};
+
+/**
+ * Resolve a single operand of an expression to a value, either by reading a
+ * path from the `event` or `async` event or by parsing it as a literal.
+ */
+const resolveOperand = (
+  operand: string,
+  scope: { event: EventPayload; async: EventPayload }
+): unknown => {
+  const [root, ...path] = operand.split(".");
+
+  if (root === "event" || root === "async") {
+    return path.reduce<unknown>((acc, key) => {
+      return (acc as Record<string, unknown> | undefined)?.[key];
+    }, scope[root]);
+  }
+
+  return JSON.parse(operand.replace(/^'(.*)'$/, '"$1"')) as unknown;
+};
+
+/**
+ * An engine used to run an Inngest function entirely locally, without the need
+ * for an Inngest Server or Dev Server.
+ *
+ * @public
+ */
+export namespace InngestTestEngine {
+  /**
+   * Options for creating a new {@link InngestTestEngine}.
+   */
+  export interface Options {
+    /**
+     * The function to test.
+     */
+    function: InngestFunction.Any;
+
+    /**
+     * The events that trigger the function. If none are given, the function
+     * will be triggered as if it had been invoked with no data.
+     *
+     * Events after the first are only used for functions using
+     * `batchEvents`.
+     */
+    events?: [EventPayload, ...EventPayload[]];
+
+    /**
+     * Events that will be received by the function while it's running, used
+     * to resolve `step.waitForEvent()` calls.
+     *
+     * Each event can only be received once. If no matching event is found, the
+     * wait will time out and resolve with `null`.
+     */
+    incomingEvents?: EventPayload[];
+
+    /**
+     * A handler used to stub the result of every `step.invoke()` call made by
+     * the function. Throwing an error will reject the invocation.
+     *
+     * If not given, any `step.invoke()` call will cause the test run to throw.
+     */
+    invoke?: (invocation: Invocation) => MaybePromise<unknown>;
+
+    /**
+     * Steps to mock by their ID, created using `mockStep()`. A mocked step
+     * resolves or rejects with its mocked result without ever running its
+     * handler, regardless of which step tool it uses.
+     */
+    steps?: MockedStep[];
+  }
+
+  /**
+   * A `step.invoke()` call that the engine has been asked to stub.
+   */
+  export interface Invocation {
+    /**
+     * The ID of the step that made the invocation.
+     */
+    id: string;
+
+    /**
+     * The ID of the function being invoked.
+     */
+    functionId: string;
+
+    /**
+     * The payload sent to the invoked function.
+     */
+    payload: Pick<EventPayload, "data" | "user">;
+  }
+
+  /**
+   * A single step that was completed during a test run.
+   */
+  export interface TimelineEntry {
+    /**
+     * The ID of the step as given by the user, including any index added if
+     * the same ID was used more than once.
+     */
+    id: string;
+
+    /**
+     * The hashed ID of the step, as it would be seen by Inngest.
+     */
+    hashedId: string;
+
+    /**
+     * The op the step reported to the engine, such as `StepPlanned` for
+     * `step.run()` or `Sleep` for `step.sleep()`.
+     */
+    op: StepOpCode;
+    name?: string;
+    displayName?: string;
+
+    /**
+     * The number of attempts it took to complete the step. Mocked steps are
+     * never attempted, so will always be `0`.
+     */
+    attempts: number;
+
+    /**
+     * Whether the result of the step was mocked using `mockStep()`.
+     */
+    mocked: boolean;
+
+    /**
+     * The data the step resolved with, if it succeeded.
+     */
+    data?: unknown;
+
+    /**
+     * The serialized error the step rejected with, if it failed.
+     */
+    error?: unknown;
+  }
+
+  /**
+   * The output of a test run, containing either the `result` or `error` of the
+   * function along with the `timeline` of steps completed.
+   */
+  export type ExecutionOutput = {
+    timeline: TimelineEntry[];
+  } & ({ result: unknown; error?: never } | { error: unknown; result?: never });
+
+  /**
+   * A step found while executing a function, along with the group of steps it
+   * was reported with.
+   */
+  export interface StepGraphNode extends TimelineEntry {
+    /**
+     * The index of the group of steps this step was reported with. Steps in
+     * the same group were found in parallel.
+     */
+    group: number;
+  }
+
+  /**
+   * A change between two versions of a function that would break memoization
+   * for in-flight runs.
+   */
+  export interface DeterminismChange {
+    /**
+     * The type of change:
+     *
+     * - `"renamed-step"`: a step has had its ID changed.
+     * - `"removed-step"`: a step is no longer found, such as if it has been
+     *   removed or moved into a conditional that wasn't met.
+     * - `"added-step"`: a new step is found before existing steps.
+     * - `"reordered-step"`: a step is now found before a step that used to be
+     *   found before it.
+     * - `"reordered-parallel-step"`: steps sharing an ID are found in a
+     *   different order, so will be given each other's memoized results.
+     */
+    type:
+      | "renamed-step"
+      | "removed-step"
+      | "added-step"
+      | "reordered-step"
+      | "reordered-parallel-step";
+
+    /**
+     * The ID of the step, including any index added if the same ID was used
+     * more than once.
+     */
+    id: string;
+
+    /**
+     * The hashed ID of the step, as it would be seen by Inngest.
+     */
+    hashedId: string;
+
+    /**
+     * For renamed steps, the previous ID of the step.
+     */
+    previousId?: string;
+
+    /**
+     * For reordered steps, the ID of the step that used to be found first.
+     */
+    relatedId?: string;
+  }
+
+  /**
+   * The result of comparing two versions of a function.
+   */
+  export interface DeterminismReport {
+    /**
+     * Whether the next version of the function can safely be deployed while
+     * runs of the previous version are in-flight.
+     */
+    ok: boolean;
+
+    changes: DeterminismChange[];
+
+    /**
+     * The step graph of the previous version of the function.
+     */
+    previous: StepGraphNode[];
+
+    /**
+     * The step graph of the next version of the function.
+     */
+    next: StepGraphNode[];
+  }
+
+  /**
+   * The recorded history of a run, used to replay it against the current code
+   * of a function.
+   */
+  export interface RunHistory {
+    /**
+     * The events that triggered the run.
+     */
+    events: [EventPayload, ...EventPayload[]];
+
+    /**
+     * The results of every step completed during the run, keyed by hashed step
+     * ID, such as the output of `InngestApi.getRunSteps()`.
+     */
+    steps: Record<string, unknown>;
+
+    /**
+     * The hashed IDs of each step in the order that they completed. If not
+     * given, the order of the keys of `steps` is used.
+     */
+    stepCompletionOrder?: string[];
+  }
+
+  /**
+   * A point at which the current code of a function diverges from a recorded
+   * run.
+   */
+  export interface ReplayDivergence {
+    /**
+     * The type of divergence:
+     *
+     * - `"missing-step"`: a recorded step is no longer reported by the code.
+     * - `"new-step"`: the code reports a step that isn't in the history.
+     * - `"reordered-step"`: a recorded step is still reported, but only after
+     *   steps that completed after it.
+     */
+    type: "missing-step" | "new-step" | "reordered-step";
+
+    /**
+     * The position in the recorded completion order at which the divergence
+     * was found.
+     */
+    position: number;
+
+    /**
+     * The hashed ID of the step, as it appears in the history.
+     */
+    hashedId: string;
+
+    /**
+     * The ID of the step as given by the user, if the code still reports it.
+     */
+    id?: string;
+    displayName?: string;
+  }
+
+  /**
+   * The result of replaying a run against the current code of a function.
+   */
+  export interface ReplayReport {
+    /**
+     * Whether the code can safely continue the recorded run.
+     */
+    ok: boolean;
+
+    divergences: ReplayDivergence[];
+
+    /**
+     * The result of executing the function with the entire recorded history.
+     */
+    result: ExecutionResult;
+  }
+}
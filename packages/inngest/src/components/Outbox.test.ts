@@ -0,0 +1,366 @@
+import {
+  InMemoryOutbox,
+  InngestMiddleware,
+  OutboxRelay,
+  SendEventPartialError,
+  type EventPayload,
+} from "@local";
+import { type SendEventResponse } from "@local/types";
+import { createClient } from "../test/helpers";
+
+const testEventKey = "foo-bar-baz-test";
+
+/**
+ * A fetch that accepts every event, returning each event's `id` as its ID, and
+ * fails any request containing an event named in `failFor`.
+ */
+const createFetch = ({ failFor = [] }: { failFor?: string[] } = {}) => {
+  return jest.fn((_url: string, opts: { body: string }) => {
+    const payloads = JSON.parse(opts.body) as EventPayload[];
+    const fail = payloads.some(({ name }) => failFor.includes(name));
+
+    const json: Partial<SendEventResponse> = fail
+      ? { status: 400, error: "Test Error" }
+      : { status: 200, ids: payloads.map(({ id }) => id as string) };
+
+    return Promise.resolve({
+      status: json.status,
+      json: () => Promise.resolve(json),
+      text: () => Promise.resolve(JSON.stringify(json)),
+    });
+  }) as unknown as typeof fetch;
+};
+
+const getSentPayloads = (fetch: typeof global.fetch) => {
+  return (
+    fetch as jest.Mock<unknown, [string, { body: string }]>
+  ).mock.calls.flatMap(([, opts]) => JSON.parse(opts.body) as EventPayload[]);
+};
+
+describe("send", () => {
+  test("writes events to the outbox instead of sending them", async () => {
+    const fetch = createFetch();
+    const outbox = new InMemoryOutbox();
+
+    const inngest = createClient({
+      id: "test",
+      eventKey: testEventKey,
+      isDev: false,
+      fetch,
+      outbox,
+    });
+
+    const trx = outbox.transaction();
+    const { ids } = await inngest.send(
+      { name: "test", data: { foo: "bar" } },
+      { transaction: trx }
+    );
+    trx.commit();
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(ids).toEqual([expect.any(String)]);
+    expect(outbox.pending).toEqual([
+      expect.objectContaining({
+        id: ids[0],
+        name: "test",
+        data: { foo: "bar" },
+      }),
+    ]);
+  });
+
+  test("keeps existing event IDs", async () => {
+    const outbox = new InMemoryOutbox();
+    const inngest = createClient({ id: "test", isDev: false, outbox });
+
+    const trx = outbox.transaction();
+    await expect(
+      inngest.send({ name: "test", id: "my-id" }, { transaction: trx })
+    ).resolves.toMatchObject({ ids: ["my-id"] });
+  });
+
+  test("discards events if the transaction is rolled back", async () => {
+    const outbox = new InMemoryOutbox();
+    const inngest = createClient({ id: "test", isDev: false, outbox });
+
+    const trx = outbox.transaction();
+    await inngest.send({ name: "test" }, { transaction: trx });
+    trx.rollback();
+
+    expect(outbox.pending).toEqual([]);
+  });
+
+  test("applies middleware before writing events", async () => {
+    const outbox = new InMemoryOutbox();
+
+    const inngest = createClient({
+      id: "test",
+      isDev: false,
+      outbox,
+      middleware: [
+        new InngestMiddleware({
+          name: "Test",
+          init() {
+            return {
+              onSendEvent() {
+                return {
+                  transformInput({ payloads }) {
+                    return {
+                      payloads: payloads.map((payload) => ({
+                        ...payload,
+                        data: { encrypted: true },
+                      })),
+                    };
+                  },
+                };
+              },
+            };
+          },
+        }),
+      ],
+    });
+
+    const trx = outbox.transaction();
+    await inngest.send(
+      { name: "test", data: { secret: "shh" } },
+      { transaction: trx }
+    );
+    trx.commit();
+
+    expect(outbox.pending).toEqual([
+      expect.objectContaining({ data: { encrypted: true } }),
+    ]);
+  });
+
+  test("throws if the client has no outbox", async () => {
+    const fetch = createFetch();
+    const inngest = createClient({
+      id: "test",
+      eventKey: testEventKey,
+      isDev: false,
+      fetch,
+    });
+
+    await expect(
+      inngest.send({ name: "test" }, { transaction: {} })
+    ).rejects.toThrow("no outbox");
+
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("OutboxRelay", () => {
+  const setup = async (
+    names: string[],
+    opts: {
+      failFor?: string[];
+      batchSize?: number;
+      maxEvents?: number;
+      maxAttempts?: number;
+    } = {}
+  ) => {
+    const fetch = createFetch(opts);
+    const outbox = new InMemoryOutbox();
+
+    const inngest = createClient({
+      id: "test",
+      eventKey: testEventKey,
+      isDev: false,
+      fetch,
+      outbox,
+      sendChunking: { maxEvents: opts.maxEvents ?? 5000 },
+    });
+
+    const trx = outbox.transaction();
+    await inngest.send(
+      names.map((name) => ({ name })),
+      { transaction: trx }
+    );
+    trx.commit();
+
+    const relay = new OutboxRelay({
+      client: inngest,
+      batchSize: opts.batchSize,
+      maxAttempts: opts.maxAttempts,
+      retries: { retries: 1, initialDelay: 1 },
+    });
+
+    return { fetch, outbox, relay };
+  };
+
+  test("throws if there is no outbox", () => {
+    expect(
+      () => new OutboxRelay({ client: createClient({ id: "test" }) })
+    ).toThrow("no outbox");
+  });
+
+  test("sends every event in the outbox and marks them as sent", async () => {
+    const { fetch, outbox, relay } = await setup(["a", "b", "c"], {
+      batchSize: 2,
+    });
+    const written = outbox.pending;
+
+    await expect(relay.drain()).resolves.toEqual(3);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(getSentPayloads(fetch)).toEqual(written);
+    expect(outbox.pending).toEqual([]);
+  });
+
+  test("does not pass events through middleware again", async () => {
+    const transformInput = jest.fn();
+    const fetch = createFetch();
+    const outbox = new InMemoryOutbox();
+
+    const inngest = createClient({
+      id: "test",
+      eventKey: testEventKey,
+      isDev: false,
+      fetch,
+      outbox,
+      middleware: [
+        new InngestMiddleware({
+          name: "Test",
+          init: () => ({ onSendEvent: () => ({ transformInput }) }),
+        }),
+      ],
+    });
+
+    const trx = outbox.transaction();
+    await inngest.send({ name: "test" }, { transaction: trx });
+    trx.commit();
+
+    await new OutboxRelay({ client: inngest }).drain();
+
+    expect(transformInput).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test("retries sending before giving up", async () => {
+    const { fetch, outbox, relay } = await setup(["a"]);
+
+    (fetch as jest.Mock).mockImplementationOnce(() =>
+      Promise.reject(new Error("ECONNRESET"))
+    );
+
+    await expect(relay.drain()).resolves.toEqual(1);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(outbox.pending).toEqual([]);
+  });
+
+  test("leaves events that failed to send in the outbox", async () => {
+    const { outbox, relay } = await setup(["a", "fail", "b"], {
+      failFor: ["fail"],
+      // Send each event in its own request
+      maxEvents: 1,
+    });
+
+    await expect(relay.drain()).rejects.toThrow(SendEventPartialError);
+
+    expect(outbox.pending).toEqual([expect.objectContaining({ name: "fail" })]);
+  });
+
+  test("gives up on events that keep failing", async () => {
+    const { fetch, outbox, relay } = await setup(["a", "fail", "b"], {
+      failFor: ["fail"],
+      batchSize: 1,
+      maxAttempts: 2,
+    });
+
+    await expect(relay.drain()).rejects.toThrow("Test Error");
+    expect(outbox.pending).toEqual([
+      expect.objectContaining({ name: "fail" }),
+      expect.objectContaining({ name: "b" }),
+    ]);
+
+    // Once the failing event is given up on, newer events are sent
+    await expect(relay.drain()).resolves.toEqual(1);
+
+    expect(outbox.pending).toEqual([]);
+    expect(outbox.failed).toEqual([expect.objectContaining({ name: "fail" })]);
+    expect(getSentPayloads(fetch).map(({ name }) => name)).toEqual([
+      "a",
+      "fail",
+      "fail",
+      "b",
+    ]);
+  });
+
+  test("counts attempts across relays", async () => {
+    const { fetch, outbox } = await setup(["fail", "a"], {
+      failFor: ["fail"],
+      batchSize: 1,
+    });
+
+    const drain = () => {
+      return new OutboxRelay({
+        client: createClient({
+          id: "test",
+          eventKey: testEventKey,
+          isDev: false,
+          fetch,
+          outbox,
+        }),
+        batchSize: 1,
+        maxAttempts: 2,
+        retries: { retries: 0 },
+      }).drain();
+    };
+
+    await expect(drain()).rejects.toThrow("Test Error");
+    await expect(drain()).resolves.toEqual(1);
+
+    expect(outbox.pending).toEqual([]);
+    expect(outbox.failed).toEqual([expect.objectContaining({ name: "fail" })]);
+  });
+
+  test("does not mark any events as sent if a whole batch fails", async () => {
+    const { outbox, relay } = await setup(["fail"], { failFor: ["fail"] });
+    const markSent = jest.spyOn(outbox, "markSent");
+
+    await expect(relay.drain()).rejects.toThrow("Test Error");
+
+    expect(markSent).not.toHaveBeenCalled();
+  });
+
+  test("only drains once at a time", async () => {
+    const { fetch, relay } = await setup(["a"]);
+
+    const [first, second] = await Promise.all([relay.drain(), relay.drain()]);
+
+    expect(first).toEqual(1);
+    expect(second).toEqual(1);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test("drains the outbox until stopped", async () => {
+    const { outbox, relay } = await setup(["a"]);
+
+    relay.start();
+    await relay.stop();
+
+    expect(outbox.pending).toEqual([]);
+  });
+
+  test("only runs one loop when restarted while draining", async () => {
+    const { relay } = await setup(["a"]);
+    const setTimeout = jest.spyOn(global, "setTimeout");
+
+    try {
+      relay.start();
+      const stopping = relay.stop();
+      relay.start();
+      await stopping;
+
+      // Let the loop schedule its next drain
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(
+        setTimeout.mock.calls.filter(([, delay]) => delay === 1000)
+      ).toHaveLength(1);
+    } finally {
+      await relay.stop();
+      setTimeout.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,508 @@
+import { type MaybePromise } from "../helpers/types";
+import { type EventPayload, type SendRetryOptions } from "../types";
+import { type Inngest } from "./Inngest";
+import {
+  SendEventPartialError,
+  type SendEventFailure,
+} from "./SendEventPartialError";
+
+/**
+ * A store that events can be written to as part of a transaction, to be sent
+ * to Inngest later by an {@link OutboxRelay}.
+ *
+ * Writing events to the same database as the rest of a business transaction
+ * means that events are only sent if the transaction commits, and are never
+ * lost if the process crashes before they're sent.
+ *
+ * Every event written to an outbox has an `id`, which Inngest uses to
+ * deduplicate events that are sent more than once by a relay.
+ *
+ * @example
+ * ```ts
+ * const outbox: OutboxAdapter<Knex.Transaction> = {
+ *   write: (events, trx) =>
+ *     trx("outbox").insert(
+ *       events.map((event) => ({ id: event.id, event: JSON.stringify(event) }))
+ *     ),
+ *   read: (limit) =>
+ *     db("outbox")
+ *       .orderBy("created_at")
+ *       .limit(limit)
+ *       .then((rows) => rows.map((row) => JSON.parse(row.event))),
+ *   markSent: (ids) => db("outbox").whereIn("id", ids).delete(),
+ *   recordFailures: async (ids) => {
+ *     await db("outbox").whereIn("id", ids).increment("attempts", 1);
+ *     const rows = await db("outbox").whereIn("id", ids);
+ *     return Object.fromEntries(rows.map((row) => [row.id, row.attempts]));
+ *   },
+ * };
+ * ```
+ *
+ * @public
+ */
+export interface OutboxAdapter<TTransaction = unknown> {
+  /**
+   * Write the given events to the outbox as part of the given transaction.
+   */
+  write(events: EventPayload[], transaction: TTransaction): MaybePromise<void>;
+
+  /**
+   * Read up to `limit` events from the outbox that have not yet been marked as
+   * sent, oldest first.
+   */
+  read(limit: number): MaybePromise<EventPayload[]>;
+
+  /**
+   * Mark the events with the given IDs as sent, so that they're not read
+   * again.
+   */
+  markSent(ids: string[]): MaybePromise<void>;
+
+  /**
+   * Record another failed attempt to send each of the events with the given
+   * IDs, resolving with the number of times each has now failed to send, by
+   * ID.
+   *
+   * If this is not implemented, attempts are only counted by each
+   * {@link OutboxRelay} for as long as it exists, so a relay must be kept
+   * running, such as by using `start()`, for events that keep failing to be
+   * given up on.
+   */
+  recordFailures?(ids: string[]): MaybePromise<Record<string, number>>;
+
+  /**
+   * Mark the given events as having failed to send too many times, so that
+   * they're not read again, such as by moving them to a dead-letter table.
+   *
+   * If this is not implemented, the events are logged using the client's
+   * logger and marked as sent.
+   */
+  markFailed?(events: EventPayload[], error: unknown): MaybePromise<void>;
+}
+
+/**
+ * A transaction for an {@link InMemoryOutbox}. Events written as part of the
+ * transaction are only added to the outbox once it is committed.
+ *
+ * @public
+ */
+export interface InMemoryOutboxTransaction {
+  commit(): void;
+  rollback(): void;
+}
+
+/**
+ * An {@link OutboxAdapter} that stores events in memory, useful as a
+ * stand-in for a real database in tests.
+ *
+ * @example
+ * ```ts
+ * const outbox = new InMemoryOutbox();
+ * const inngest = new Inngest({ id: "my-app", outbox });
+ *
+ * const trx = outbox.transaction();
+ * await inngest.send({ name: "app/user.created" }, { transaction: trx });
+ * trx.commit();
+ * ```
+ *
+ * @public
+ */
+export class InMemoryOutbox
+  implements OutboxAdapter<InMemoryOutboxTransaction>
+{
+  private events: EventPayload[] = [];
+  private failedEvents: EventPayload[] = [];
+
+  /**
+   * The number of times each event, by ID, has failed to send.
+   */
+  private failures = new Map<string, number>();
+
+  /**
+   * Events written as part of each transaction that hasn't yet been committed
+   * or rolled back.
+   */
+  private staged = new WeakMap<InMemoryOutboxTransaction, EventPayload[]>();
+
+  /**
+   * Start a new transaction that events can be written to.
+   */
+  public transaction(): InMemoryOutboxTransaction {
+    const transaction: InMemoryOutboxTransaction = {
+      commit: () => {
+        this.events.push(...(this.staged.get(transaction) ?? []));
+        this.staged.delete(transaction);
+      },
+      rollback: () => {
+        this.staged.delete(transaction);
+      },
+    };
+
+    this.staged.set(transaction, []);
+
+    return transaction;
+  }
+
+  /**
+   * Every committed event that has not yet been marked as sent.
+   */
+  public get pending(): EventPayload[] {
+    return [...this.events];
+  }
+
+  /**
+   * Every event that was given up on after failing to send too many times.
+   */
+  public get failed(): EventPayload[] {
+    return [...this.failedEvents];
+  }
+
+  public write(
+    events: EventPayload[],
+    transaction: InMemoryOutboxTransaction
+  ): void {
+    const staged = this.staged.get(transaction);
+    if (!staged) {
+      throw new Error("Transaction has already been committed or rolled back");
+    }
+
+    staged.push(...events);
+  }
+
+  public read(limit: number): EventPayload[] {
+    return this.events.slice(0, limit);
+  }
+
+  public markSent(ids: string[]): void {
+    const sent = new Set(ids);
+    this.events = this.events.filter((event) => !sent.has(event.id as string));
+    ids.forEach((id) => this.failures.delete(id));
+  }
+
+  public recordFailures(ids: string[]): Record<string, number> {
+    return Object.fromEntries(
+      ids.map((id) => {
+        const failures = (this.failures.get(id) ?? 0) + 1;
+        this.failures.set(id, failures);
+
+        return [id, failures];
+      })
+    );
+  }
+
+  public markFailed(events: EventPayload[]): void {
+    this.markSent(events.map(({ id }) => id as string));
+    this.failedEvents.push(...events);
+  }
+}
+
+/**
+ * Options for creating an {@link OutboxRelay}.
+ *
+ * @public
+ */
+export interface OutboxRelayOptions {
+  /**
+   * The client to send events with.
+   */
+  client: Inngest.Any;
+
+  /**
+   * The outbox to drain. Defaults to the `outbox` passed to the client.
+   */
+  outbox?: OutboxAdapter;
+
+  /**
+   * The maximum number of events to read from the outbox at once.
+   *
+   * Defaults to `100`.
+   */
+  batchSize?: number;
+
+  /**
+   * How many times to retry sending each batch of events before giving up
+   * until the next time the outbox is drained. Can be the number of times to
+   * retry or a set of options.
+   *
+   * Defaults to `3`.
+   */
+  retries?: number | SendRetryOptions;
+
+  /**
+   * How many times the outbox can be drained with an event failing to send
+   * before it is given up on and passed to the outbox's `markFailed()`, so
+   * that it doesn't stop newer events from being sent.
+   *
+   * Attempts are stored using the outbox's `recordFailures()` if it has one,
+   * so they're counted across relays, such as when draining from a cron job.
+   *
+   * Defaults to `5`.
+   */
+  maxAttempts?: number;
+
+  /**
+   * The time in milliseconds to wait between draining the outbox once the
+   * relay has been started using `start()`.
+   *
+   * Defaults to `1000`.
+   */
+  interval?: number;
+}
+
+/**
+ * Sends events that were written to an {@link OutboxAdapter} to Inngest,
+ * marking them as sent once Inngest has received them.
+ *
+ * Events have already been through the client's middleware when they were
+ * written to the outbox, so they are sent as-is.
+ *
+ * If the relay stops after sending events but before marking them as sent,
+ * they will be sent again the next time the outbox is drained. As every event
+ * in an outbox has an `id`, Inngest will ignore the duplicates.
+ *
+ * @example
+ * ```ts
+ * const relay = new OutboxRelay({ client: inngest });
+ *
+ * // Drain the outbox every second
+ * relay.start();
+ *
+ * // Or drain it once, e.g. from a cron job
+ * await relay.drain();
+ * ```
+ *
+ * @public
+ */
+export class OutboxRelay {
+  private readonly client: Inngest.Any;
+  private readonly outbox: OutboxAdapter;
+  private readonly batchSize: number;
+  private readonly retries: Required<SendRetryOptions>;
+  private readonly interval: number;
+  private readonly maxAttempts: number;
+
+  /**
+   * The drain that's currently in progress, if any.
+   */
+  private draining: Promise<number> | undefined;
+
+  /**
+   * The timer for the next drain if the relay has been started.
+   */
+  private timeout: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * A token for the loop started by `start()`, if the relay is running. Loops
+   * left over from a previous `start()` stop when they see it has changed.
+   */
+  private loop: object | undefined;
+
+  /**
+   * The number of times each event, by ID, has failed to send, used if the
+   * outbox can't record failures itself.
+   */
+  private attempts = new Map<string, number>();
+
+  constructor({
+    client,
+    outbox = client["outbox"],
+    batchSize = 100,
+    retries = 3,
+    interval = 1000,
+    maxAttempts = 5,
+  }: OutboxRelayOptions) {
+    if (!outbox) {
+      throw new Error(
+        "No outbox was given to the relay and the client has no outbox"
+      );
+    }
+
+    this.client = client;
+    this.outbox = outbox;
+    this.batchSize = batchSize;
+    this.interval = interval;
+    this.maxAttempts = maxAttempts;
+    this.retries = {
+      initialDelay: 200,
+      maxDelay: 10000,
+      ...(typeof retries === "number" ? { retries } : retries),
+    };
+  }
+
+  /**
+   * Send every event in the outbox to Inngest, resolving with the number of
+   * events that were sent.
+   *
+   * If a batch of events fails to send after retrying, any events from the
+   * batch that were sent are still marked as sent and the error is thrown.
+   * Events that failed remain in the outbox to be sent the next time it is
+   * drained, unless they have failed `maxAttempts` times, in which case they
+   * are marked as failed and draining continues.
+   *
+   * If the outbox is already being drained, this resolves with the result of
+   * that drain instead of starting another.
+   */
+  public drain(): Promise<number> {
+    this.draining ??= this._drain().finally(() => {
+      this.draining = undefined;
+    });
+
+    return this.draining;
+  }
+
+  /**
+   * Start draining the outbox every `interval` milliseconds until `stop()` is
+   * called. Errors are logged using the client's logger.
+   */
+  public start(): void {
+    if (this.loop) {
+      return;
+    }
+
+    const loop = {};
+    this.loop = loop;
+
+    const tick = async () => {
+      try {
+        await this.drain();
+      } catch (err) {
+        this.client["logger"].error("Failed to drain outbox", err);
+      }
+
+      if (this.loop === loop) {
+        this.timeout = setTimeout(() => void tick(), this.interval);
+      }
+    };
+
+    void tick();
+  }
+
+  /**
+   * Stop draining the outbox, resolving once any drain in progress has
+   * finished.
+   */
+  public async stop(): Promise<void> {
+    this.loop = undefined;
+    clearTimeout(this.timeout);
+    this.timeout = undefined;
+
+    await this.draining?.catch(() => undefined);
+  }
+
+  private async _drain(): Promise<number> {
+    let sent = 0;
+
+    for (;;) {
+      const events = await this.outbox.read(this.batchSize);
+      if (!events.length) {
+        return sent;
+      }
+
+      let failures: SendEventFailure[] = [];
+
+      try {
+        await this.client["sendPrepared"](events, this.retries);
+      } catch (err) {
+        failures =
+          err instanceof SendEventPartialError
+            ? err.failures
+            : [{ payloads: events, error: err }];
+
+        const failed = new Set(
+          failures.flatMap(({ payloads }) => {
+            return payloads.map(({ id }) => id);
+          })
+        );
+
+        const sentIds = events
+          .map(({ id }) => id as string)
+          .filter((id) => !failed.has(id));
+
+        if (sentIds.length) {
+          await this.outbox.markSent(sentIds);
+          sent += sentIds.length;
+          sentIds.forEach((id) => this.attempts.delete(id));
+        }
+
+        const retriable = await this.giveUpOnFailures(failures);
+        if (retriable) {
+          throw err;
+        }
+
+        continue;
+      }
+
+      await this.outbox.markSent(events.map(({ id }) => id as string));
+      sent += events.length;
+      events.forEach(({ id }) => this.attempts.delete(id as string));
+
+      if (events.length < this.batchSize) {
+        return sent;
+      }
+    }
+  }
+
+  /**
+   * Record another failed attempt for each of the events that failed to send,
+   * marking any that have failed `maxAttempts` times as failed.
+   *
+   * Returns whether any events that failed are still to be retried.
+   */
+  private async giveUpOnFailures(
+    failures: SendEventFailure[]
+  ): Promise<boolean> {
+    let retriable = false;
+
+    const attempts = await this.recordFailures(
+      failures.flatMap(({ payloads }) => payloads.map(({ id }) => id as string))
+    );
+
+    for (const { payloads, error } of failures) {
+      const exhausted = payloads.filter(({ id }) => {
+        return (attempts[id as string] ?? 0) >= this.maxAttempts;
+      });
+
+      if (exhausted.length < payloads.length) {
+        retriable = true;
+      }
+
+      if (!exhausted.length) {
+        continue;
+      }
+
+      if (this.outbox.markFailed) {
+        await this.outbox.markFailed(exhausted, error);
+      } else {
+        this.client["logger"].error(
+          `Giving up on sending ${exhausted.length} event(s) from the outbox after ${this.maxAttempts} attempts`,
+          { events: exhausted, error }
+        );
+
+        await this.outbox.markSent(exhausted.map(({ id }) => id as string));
+      }
+
+      exhausted.forEach(({ id }) => this.attempts.delete(id as string));
+    }
+
+    return retriable;
+  }
+
+  /**
+   * Record a failed attempt to send each of the events with the given IDs,
+   * returning the number of times each has now failed to send.
+   */
+  private async recordFailures(ids: string[]): Promise<Record<string, number>> {
+    if (this.outbox.recordFailures) {
+      return this.outbox.recordFailures(ids);
+    }
+
+    return Object.fromEntries(
+      ids.map((id) => {
+        const attempts = (this.attempts.get(id) ?? 0) + 1;
+        this.attempts.set(id, attempts);
+
+        return [id, attempts];
+      })
+    );
+  }
+}
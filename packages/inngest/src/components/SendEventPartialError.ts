@@ -0,0 +1,68 @@
+import { type EventPayload } from "../types";
+
+/**
+ * A single request made by `inngest.send()` that failed to send its events.
+ *
+ * @public
+ */
+export interface SendEventFailure {
+  /**
+   * The events that were not sent because their request failed.
+   */
+  payloads: EventPayload[];
+
+  /**
+   * The error that caused the request to fail.
+   */
+  error: unknown;
+}
+
+/**
+ * An error thrown by `inngest.send()` when events had to be split across
+ * multiple requests and some of those requests failed.
+ *
+ * The events that were sent are not lost; their IDs are available as `ids`,
+ * and the events that failed can be resent using the `payloads` of each of
+ * the `failures`.
+ *
+ * @public
+ */
+export class SendEventPartialError extends Error {
+  /**
+   * The IDs of the events that were successfully sent.
+   */
+  public readonly ids: string[];
+
+  /**
+   * Each request that failed, along with the events it was sending.
+   */
+  public readonly failures: SendEventFailure[];
+
+  constructor({
+    ids,
+    failures,
+  }: {
+    ids: string[];
+    failures: SendEventFailure[];
+  }) {
+    const failedCount = failures.reduce((acc, { payloads }) => {
+      return acc + payloads.length;
+    }, 0);
+
+    const [firstFailure] = failures;
+    const reason =
+      firstFailure?.error instanceof Error
+        ? firstFailure.error.message
+        : String(firstFailure?.error);
+
+    super(
+      `Failed to send ${failedCount} of ${failedCount + ids.length} events in ${
+        failures.length
+      } request${failures.length === 1 ? "" : "s"}: ${reason}`
+    );
+
+    this.ids = ids;
+    this.failures = failures;
+    this.name = "SendEventPartialError";
+  }
+}
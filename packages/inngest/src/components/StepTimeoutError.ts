@@ -0,0 +1,25 @@
+/**
+ * An error thrown when a `step.run()` call takes longer than its `timeout`.
+ *
+ * Like any other error thrown by a step, the step will be retried. If it times
+ * out on every attempt, a `StepError` with the name `"StepTimeoutError"` is
+ * thrown in the function, which can be caught like any other step failure.
+ *
+ * @public
+ */
+export class StepTimeoutError extends Error {
+  constructor(
+    /**
+     * The ID of the step that timed out.
+     */
+    public readonly stepId: string,
+
+    /**
+     * The timeout of the step in milliseconds.
+     */
+    public readonly timeout: number
+  ) {
+    super(`Step "${stepId}" timed out after ${timeout}ms`);
+    this.name = "StepTimeoutError";
+  }
+}
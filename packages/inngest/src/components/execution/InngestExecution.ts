@@ -6,6 +6,7 @@ import { type Context, type IncomingOp, type OutgoingOp } from "../../types";
 import { type Inngest } from "../Inngest";
 import { type ActionResponse } from "../InngestCommHandler";
 import { type InngestFunction } from "../InngestFunction";
+import { type FoundStep } from "../InngestStepTools";
 
 /**
  * The possible results of an execution.
@@ -51,13 +52,28 @@ export interface InngestExecutionOptions {
   fn: InngestFunction.Any;
   reqArgs: unknown[];
   runId: string;
-  data: Omit<Context.Any, "step">;
+  data: Omit<Context.Any, "step" | "signal">;
   stepState: Record<string, MemoizedOp>;
   stepCompletionOrder: string[];
   requestedRunStep?: string;
   timer?: ServerTiming;
   isFailureHandler?: boolean;
   disableImmediateExecution?: boolean;
+
+  /**
+   * An optional callback run every time a step is found during execution,
+   * after its ID has been indexed but before it has been reported.
+   *
+   * This allows local tooling such as the `InngestTestEngine` to map hashed
+   * step IDs back to the IDs given by the user.
+   */
+  onStepFound?: (step: Readonly<FoundStep>) => void;
+
+  /**
+   * An optional signal that aborts the execution's own signal, such as when
+   * the request that the execution is being run for has been cancelled.
+   */
+  signal?: AbortSignal;
 }
 
 export type InngestExecutionFactory = (
@@ -67,10 +83,37 @@ export type InngestExecutionFactory = (
 export class InngestExecution {
   protected debug: Debugger;
 
+  /**
+   * Aborted once this execution is over, so that any user code still running,
+   * such as a step that's been raced by another, can stop its work.
+   */
+  protected abortController = new AbortController();
+
   constructor(protected options: InngestExecutionOptions) {
     this.options = options;
     this.debug = Debug(debugPrefix).extend(this.options.runId);
+
+    if (this.options.signal?.aborted) {
+      this.abort(this.options.signal.reason);
+    } else {
+      this.options.signal?.addEventListener("abort", this.onSignalAbort, {
+        once: true,
+      });
+    }
   }
+
+  /**
+   * Abort the execution's signal, if it hasn't been already, and stop
+   * listening to the signal given in the options.
+   */
+  protected abort(reason?: unknown): void {
+    this.options.signal?.removeEventListener("abort", this.onSignalAbort);
+    this.abortController.abort(reason);
+  }
+
+  private onSignalAbort = (): void => {
+    this.abort(this.options.signal?.reason);
+  };
 }
 
 export interface IInngestExecution {
@@ -69,185 +69,204 @@ export class V0InngestExecution
   public start() {
     this.debug("starting V0 execution");
 
-    return (this.execution ??= this._start().then((result) => {
-      this.debug("result:", result);
-      return result;
-    }));
+    return (this.execution ??= this._start()
+      .then((result) => {
+        this.debug("result:", result);
+        return result;
+      })
+      .finally(() => {
+        this.abort();
+      }));
   }
 
   private async _start(): Promise<ExecutionResult> {
     this.state.hooks = await this.initializeMiddleware();
 
+    let result: ExecutionResult | undefined;
+
     try {
-      await this.transformInput();
-      await this.state.hooks.beforeMemoization?.();
+      result = await this.execute();
+    } catch (error) {
+      result = await this.transformOutput({ error });
+    } finally {
+      await this.state.hooks.beforeResponse?.({ result });
+    }
 
-      if (this.state.opStack.length === 0 && !this.options.requestedRunStep) {
-        await this.state.hooks.afterMemoization?.();
-        await this.state.hooks.beforeExecution?.();
-      }
+    return result;
+  }
 
-      const userFnPromise = runAsPromise(() => this.userFnToRun(this.fnArg));
+  /**
+   * Run the user's function, memoizing state and running or discovering steps
+   * as needed.
+   */
+  private async execute(): Promise<ExecutionResult> {
+    await this.transformInput();
+    await this.state.hooks?.beforeMemoization?.();
 
-      let pos = -1;
+    if (this.state.opStack.length === 0 && !this.options.requestedRunStep) {
+      await this.state.hooks?.afterMemoization?.();
+      await this.state.hooks?.beforeExecution?.();
+    }
 
-      do {
-        if (pos >= 0) {
-          if (
-            !this.options.requestedRunStep &&
-            pos === this.state.opStack.length - 1
-          ) {
-            await this.state.hooks.afterMemoization?.();
-            await this.state.hooks.beforeExecution?.();
-          }
+    const userFnPromise = runAsPromise(() => this.userFnToRun(this.fnArg));
 
-          this.state.tickOps = {};
-          const incomingOp = this.state.opStack[pos] as IncomingOp;
-          this.state.currentOp = this.state.allFoundOps[incomingOp.id];
-
-          if (!this.state.currentOp) {
-            /**
-             * We're trying to resume the function, but we can't find where to go.
-             *
-             * This means that either the function has changed or there are async
-             * actions in-between steps that we haven't noticed in previous
-             * executions.
-             *
-             * Whichever the case, this is bad and we can't continue in this
-             * undefined state.
-             */
-            throw new NonRetriableError(
-              prettyError({
-                whatHappened: " Your function was stopped from running",
-                why: "We couldn't resume your function's state because it may have changed since the run started or there are async actions in-between steps that we haven't noticed in previous executions.",
-                consequences:
-                  "Continuing to run the function may result in unexpected behaviour, so we've stopped your function to ensure nothing unexpected happened!",
-                toFixNow:
-                  "Ensure that your function is either entirely step-based or entirely non-step-based, by either wrapping all asynchronous logic in `step.run()` calls or by removing all `step.*()` calls.",
-                otherwise:
-                  "For more information on why step functions work in this manner, see https://www.inngest.com/docs/functions/multi-step#gotchas",
-                stack: true,
-                code: ErrCode.NON_DETERMINISTIC_FUNCTION,
-              })
-            );
-          }
+    let pos = -1;
 
-          this.state.currentOp.fulfilled = true;
+    do {
+      if (pos >= 0) {
+        if (
+          !this.options.requestedRunStep &&
+          pos === this.state.opStack.length - 1
+        ) {
+          await this.state.hooks?.afterMemoization?.();
+          await this.state.hooks?.beforeExecution?.();
+        }
 
-          if (typeof incomingOp.data !== "undefined") {
-            this.state.currentOp.resolve(incomingOp.data);
-          } else {
-            this.state.currentOp.reject(incomingOp.error);
-          }
+        this.state.tickOps = {};
+        const incomingOp = this.state.opStack[pos] as IncomingOp;
+        this.state.currentOp = this.state.allFoundOps[incomingOp.id];
+
+        if (!this.state.currentOp) {
+          /**
+           * We're trying to resume the function, but we can't find where to go.
+           *
+           * This means that either the function has changed or there are async
+           * actions in-between steps that we haven't noticed in previous
+           * executions.
+           *
+           * Whichever the case, this is bad and we can't continue in this
+           * undefined state.
+           */
+          throw new NonRetriableError(
+            prettyError({
+              whatHappened: " Your function was stopped from running",
+              why: "We couldn't resume your function's state because it may have changed since the run started or there are async actions in-between steps that we haven't noticed in previous executions.",
+              consequences:
+                "Continuing to run the function may result in unexpected behaviour, so we've stopped your function to ensure nothing unexpected happened!",
+              toFixNow:
+                "Ensure that your function is either entirely step-based or entirely non-step-based, by either wrapping all asynchronous logic in `step.run()` calls or by removing all `step.*()` calls.",
+              otherwise:
+                "For more information on why step functions work in this manner, see https://www.inngest.com/docs/functions/multi-step#gotchas",
+              stack: true,
+              code: ErrCode.NON_DETERMINISTIC_FUNCTION,
+            })
+          );
         }
 
-        await resolveAfterPending();
-        this.state.reset();
-        pos++;
-      } while (pos < this.state.opStack.length);
+        this.state.currentOp.fulfilled = true;
 
-      await this.state.hooks.afterMemoization?.();
+        if (typeof incomingOp.data !== "undefined") {
+          this.state.currentOp.resolve(incomingOp.data);
+        } else {
+          this.state.currentOp.reject(incomingOp.error);
+        }
+      }
 
-      const discoveredOps = Object.values(this.state.tickOps).map<OutgoingOp>(
-        tickOpToOutgoing
-      );
+      await resolveAfterPending();
+      this.state.reset();
+      pos++;
+    } while (pos < this.state.opStack.length);
 
-      const runStep =
-        this.options.requestedRunStep ||
-        this.getEarlyExecRunStep(discoveredOps);
+    await this.state.hooks?.afterMemoization?.();
 
-      if (runStep) {
-        const userFnOp = this.state.allFoundOps[runStep];
-        const stepToRun = userFnOp?.fn;
+    const discoveredOps = Object.values(this.state.tickOps).map<OutgoingOp>(
+      tickOpToOutgoing
+    );
 
-        if (!stepToRun) {
-          throw new Error(
-            `Bad stack; executor requesting to run unknown step "${runStep}"`
-          );
-        }
+    const runStep =
+      this.options.requestedRunStep || this.getEarlyExecRunStep(discoveredOps);
 
-        const outgoingUserFnOp = {
-          ...tickOpToOutgoing(userFnOp),
-          op: StepOpCode.Step,
-        };
+    if (runStep) {
+      const userFnOp = this.state.allFoundOps[runStep];
+      const stepToRun = userFnOp?.fn;
 
-        await this.state.hooks.beforeExecution?.();
-        this.state.executingStep = true;
+      if (!stepToRun) {
+        throw new Error(
+          `Bad stack; executor requesting to run unknown step "${runStep}"`
+        );
+      }
 
-        const result = await runAsPromise(stepToRun)
-          .finally(() => {
-            this.state.executingStep = false;
-          })
-          .catch(async (error: Error) => {
-            return await this.transformOutput({ error }, outgoingUserFnOp);
-          })
-          .then(async (data) => {
-            await this.state.hooks?.afterExecution?.();
-            return await this.transformOutput({ data }, outgoingUserFnOp);
-          });
+      const outgoingUserFnOp = {
+        ...tickOpToOutgoing(userFnOp),
+        op: StepOpCode.Step,
+      };
 
-        const { type: _type, ...rest } = result;
+      await this.state.hooks?.beforeExecution?.();
+      this.state.executingStep = true;
 
-        return { type: "step-ran", step: { ...outgoingUserFnOp, ...rest } };
-      }
+      const stopTimer = this.options.timer?.start(
+        "step",
+        outgoingUserFnOp.displayName ?? outgoingUserFnOp.name
+      );
 
-      if (!discoveredOps.length) {
-        const fnRet = await Promise.race([
-          userFnPromise.then((data) => ({ type: "complete", data }) as const),
-          resolveNextTick().then(() => ({ type: "incomplete" }) as const),
-        ]);
+      const result = await runAsPromise(stepToRun)
+        .finally(() => {
+          stopTimer?.();
+          this.state.executingStep = false;
+        })
+        .catch(async (error: Error) => {
+          return await this.transformOutput({ error }, outgoingUserFnOp);
+        })
+        .then(async (data) => {
+          await this.state.hooks?.afterExecution?.();
+          return await this.transformOutput({ data }, outgoingUserFnOp);
+        });
+
+      const { type: _type, ...rest } = result;
+
+      return { type: "step-ran", step: { ...outgoingUserFnOp, ...rest } };
+    }
 
-        if (fnRet.type === "complete") {
-          await this.state.hooks.afterExecution?.();
+    if (!discoveredOps.length) {
+      const fnRet = await Promise.race([
+        userFnPromise.then((data) => ({ type: "complete", data }) as const),
+        resolveNextTick().then(() => ({ type: "incomplete" }) as const),
+      ]);
 
-          const allOpsFulfilled = Object.values(this.state.allFoundOps).every(
-            (op) => {
-              return op.fulfilled;
-            }
-          );
+      if (fnRet.type === "complete") {
+        await this.state.hooks?.afterExecution?.();
 
-          if (allOpsFulfilled) {
-            return await this.transformOutput({ data: fnRet.data });
+        const allOpsFulfilled = Object.values(this.state.allFoundOps).every(
+          (op) => {
+            return op.fulfilled;
           }
-        } else if (!this.state.hasUsedTools) {
-          this.state.nonStepFnDetected = true;
-          const data = await userFnPromise;
-          await this.state.hooks.afterExecution?.();
-          return await this.transformOutput({ data });
-        } else {
-          const hasOpsPending = Object.values(this.state.allFoundOps).some(
-            (op) => {
-              return op.fulfilled === false;
-            }
-          );
+        );
 
-          if (!hasOpsPending) {
-            throw new NonRetriableError(
-              functionStoppedRunningErr(
-                ErrCode.ASYNC_DETECTED_AFTER_MEMOIZATION
-              )
-            );
+        if (allOpsFulfilled) {
+          return await this.transformOutput({ data: fnRet.data });
+        }
+      } else if (!this.state.hasUsedTools) {
+        this.state.nonStepFnDetected = true;
+        const data = await userFnPromise;
+        await this.state.hooks?.afterExecution?.();
+        return await this.transformOutput({ data });
+      } else {
+        const hasOpsPending = Object.values(this.state.allFoundOps).some(
+          (op) => {
+            return op.fulfilled === false;
           }
+        );
+
+        if (!hasOpsPending) {
+          throw new NonRetriableError(
+            functionStoppedRunningErr(ErrCode.ASYNC_DETECTED_AFTER_MEMOIZATION)
+          );
         }
       }
+    }
 
-      await this.state.hooks.afterExecution?.();
+    await this.state.hooks?.afterExecution?.();
 
-      return {
-        type: "steps-found",
-        steps: discoveredOps as [OutgoingOp, ...OutgoingOp[]],
-      };
-    } catch (error) {
-      return await this.transformOutput({ error });
-    } finally {
-      await this.state.hooks.beforeResponse?.();
-    }
+    return {
+      type: "steps-found",
+      steps: discoveredOps as [OutgoingOp, ...OutgoingOp[]],
+    };
   }
 
   private async initializeMiddleware(): Promise<RunHookStack> {
     const ctx = this.options.data as Pick<
       Readonly<BaseContext<Inngest.Any>>,
-      "event" | "events" | "runId"
+      "event" | "events" | "runId" | "attempt"
     >;
 
     const hooks = await getHookStack(
@@ -258,6 +277,7 @@ export class V0InngestExecution
         fn: this.options.fn,
         steps: Object.values(this.options.stepState),
         reqArgs: this.options.reqArgs,
+        requestedRunStep: this.options.requestedRunStep,
       },
       {
         transformInput: (prev, output) => {
@@ -277,6 +297,7 @@ export class V0InngestExecution
             step: prev.step,
           };
         },
+        beforeResponse: (prev) => prev,
       }
     );
 
@@ -405,7 +426,12 @@ export class V0InngestExecution
       return new Promise<unknown>((resolve, reject) => {
         this.state.tickOps[opId.id] = {
           ...opId,
-          ...(opts?.fn ? { fn: () => opts.fn?.(...args) } : {}),
+          ...(opts?.fn
+            ? {
+                fn: () =>
+                  opts.fn?.({ signal: this.abortController.signal }, ...args),
+              }
+            : {}),
           resolve,
           reject,
           fulfilled: false,
@@ -418,6 +444,7 @@ export class V0InngestExecution
     let fnArg = {
       ...(this.options.data as { event: EventPayload }),
       step,
+      signal: this.abortController.signal,
     } as Context.Any;
 
     if (this.options.isFailureHandler) {
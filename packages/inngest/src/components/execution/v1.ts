@@ -1,4 +1,5 @@
 import { sha1 } from "hash.js";
+import ms from "ms";
 import { z } from "zod";
 import { internalEvents } from "../../helpers/consts";
 import {
@@ -8,13 +9,14 @@ import {
   prettyError,
   serializeError,
 } from "../../helpers/errors";
-import { undefinedToNull } from "../../helpers/functions";
+import { isFinalFailure, undefinedToNull } from "../../helpers/functions";
 import {
   createDeferredPromise,
   createTimeoutPromise,
   resolveAfterPending,
   runAsPromise,
 } from "../../helpers/promises";
+import { getRetryDelay } from "../../helpers/net";
 import { type MaybePromise, type Simplify } from "../../helpers/types";
 import {
   StepOpCode,
@@ -35,10 +37,12 @@ import {
   invokePayloadSchema,
   type FoundStep,
   type StepHandler,
+  type StepRunPolicy,
 } from "../InngestStepTools";
 import { NonRetriableError } from "../NonRetriableError";
 import { RetryAfterError } from "../RetryAfterError";
 import { StepError } from "../StepError";
+import { StepTimeoutError } from "../StepTimeoutError";
 import {
   InngestExecution,
   type ExecutionResult,
@@ -94,16 +98,22 @@ class V1InngestExecution extends InngestExecution implements IInngestExecution {
   public start() {
     this.debug("starting V1 execution");
 
-    return (this.execution ??= this._start().then((result) => {
-      this.debug("result:", result);
-      return result;
-    }));
+    return (this.execution ??= this._start()
+      .then((result) => {
+        this.debug("result:", result);
+        return result;
+      })
+      .finally(() => {
+        this.abort();
+      }));
   }
 
   /**
    * Starts execution of the user's function and the core loop.
    */
   private async _start(): Promise<ExecutionResult> {
+    let result: ExecutionResult | undefined;
+
     try {
       const allCheckpointHandler = this.getCheckpointHandler("");
       this.state.hooks = await this.initializeMiddleware();
@@ -113,17 +123,19 @@ class V1InngestExecution extends InngestExecution implements IInngestExecution {
         await allCheckpointHandler(checkpoint);
 
         const handler = this.getCheckpointHandler(checkpoint.type);
-        const result = await handler(checkpoint);
+        const checkpointResult = await handler(checkpoint);
 
-        if (result) {
+        if (checkpointResult) {
+          result = checkpointResult;
           return result;
         }
       }
     } catch (error) {
-      return await this.transformOutput({ error });
+      result = await this.transformOutput({ error });
+      return result;
     } finally {
       void this.state.loop.return();
-      await this.state.hooks?.beforeResponse?.();
+      await this.state.hooks?.beforeResponse?.({ result });
     }
 
     /**
@@ -158,6 +170,11 @@ class V1InngestExecution extends InngestExecution implements IInngestExecution {
        * The user's function has thrown an error.
        */
       "function-rejected": async (checkpoint) => {
+        const compensationResult = await this.tryCompensate(checkpoint.error);
+        if (compensationResult) {
+          return compensationResult;
+        }
+
         return await this.transformOutput({ error: checkpoint.error });
       },
 
@@ -168,34 +185,7 @@ class V1InngestExecution extends InngestExecution implements IInngestExecution {
       "steps-found": async ({ steps }) => {
         const stepResult = await this.tryExecuteStep(steps);
         if (stepResult) {
-          const transformResult = await this.transformOutput(stepResult);
-
-          /**
-           * Transforming output will always return either function rejection or
-           * resolution. In most cases, this can be immediately returned, but in
-           * this particular case we want to handle it differently.
-           */
-          if (transformResult.type === "function-resolved") {
-            return {
-              type: "step-ran",
-              step: _internals.hashOp({
-                ...stepResult,
-                data: transformResult.data,
-              }),
-            };
-            // }
-          } else if (transformResult.type === "function-rejected") {
-            return {
-              type: "step-ran",
-              step: _internals.hashOp({
-                ...stepResult,
-                error: transformResult.error,
-              }),
-              retriable: transformResult.retriable,
-            };
-          }
-
-          return transformResult;
+          return await this.transformStepResult(stepResult);
         }
 
         const newSteps = await this.filterNewSteps(
@@ -219,6 +209,194 @@ class V1InngestExecution extends InngestExecution implements IInngestExecution {
     };
   }
 
+  /**
+   * Given the result of executing a step, transform it using middleware and
+   * return it as a step that has been run.
+   */
+  private async transformStepResult(
+    stepResult: OutgoingOp
+  ): Promise<ExecutionResult> {
+    const transformResult = await this.transformOutput(stepResult);
+
+    /**
+     * Transforming output will always return either function rejection or
+     * resolution. In most cases, this can be immediately returned, but in
+     * this particular case we want to handle it differently.
+     */
+    if (transformResult.type === "function-resolved") {
+      return {
+        type: "step-ran",
+        step: _internals.hashOp({
+          ...stepResult,
+          data: transformResult.data,
+        }),
+      };
+    } else if (transformResult.type === "function-rejected") {
+      return {
+        type: "step-ran",
+        step: _internals.hashOp({
+          ...stepResult,
+          error: transformResult.error,
+        }),
+        retriable: this.applyStepRetryPolicy(
+          stepResult,
+          transformResult.retriable
+        ),
+      };
+    }
+
+    return transformResult;
+  }
+
+  /**
+   * Apply any `retries` and `backoff` given to a `step.run()` call to the
+   * failed step, returning whether the step should be retried and, if so,
+   * optionally how many seconds to wait before retrying it.
+   */
+  private applyStepRetryPolicy(
+    step: OutgoingOp,
+    retriable: boolean | string
+  ): boolean | string {
+    const { retries, backoff } = this.state.steps[step.id]?.policy ?? {};
+    const { attempt } = this.options.data;
+
+    if (retriable === false) {
+      return false;
+    }
+
+    if (typeof retries === "number" && attempt >= retries) {
+      return false;
+    }
+
+    // Respect any `RetryAfterError` thrown by the step over its backoff.
+    if (!backoff || typeof retriable === "string") {
+      return retriable;
+    }
+
+    const toMs = (value: number | string) =>
+      typeof value === "string" ? ms(value) : value;
+
+    const delay = getRetryDelay({
+      attempt,
+      initialDelay: toMs(backoff.initialDelay ?? "1s"),
+      maxDelay: toMs(backoff.maxDelay ?? "10m"),
+    });
+
+    return `${Math.ceil(delay / 1000)}`;
+  }
+
+  /**
+   * If the function has failed permanently and steps with compensations have
+   * completed, run the next of those compensations as a step.
+   *
+   * Compensations are run in the reverse order to which their steps
+   * completed. Once they have all been run, the original error is returned as
+   * a non-retriable rejection.
+   */
+  private async tryCompensate(error: unknown): Promise<ExecutionResult | void> {
+    const steps = [...this.state.compensations]
+      .reverse()
+      .map((compensation) => {
+        return this.createCompensationStep(compensation);
+      });
+
+    if (!steps.length) {
+      return;
+    }
+
+    /**
+     * Once any compensation has been run or requested, we're committed to
+     * running the rest of them, regardless of the attempt we're on.
+     */
+    const started = steps.some((step) => {
+      return (
+        this.state.stepState[step.hashedId] ||
+        step.hashedId === this.options.requestedRunStep
+      );
+    });
+    if (!started && !this.isFinalFailure(error)) {
+      return;
+    }
+
+    const step = steps.find((step) => {
+      const stepState = this.state.stepState[step.hashedId];
+      if (stepState) {
+        stepState.seen = true;
+      }
+
+      return !stepState;
+    });
+
+    if (!step) {
+      this.debug("all compensations run; failing function");
+
+      const result = await this.transformOutput({ error });
+      if (result.type === "function-rejected") {
+        return { ...result, retriable: false };
+      }
+
+      return result;
+    }
+
+    this.options.onStepFound?.(step);
+
+    if (this.options.requestedRunStep) {
+      if (this.options.requestedRunStep === step.hashedId) {
+        return await this.transformStepResult(await this.executeStep(step));
+      }
+
+      return;
+    }
+
+    if (!this.options.disableImmediateExecution) {
+      return await this.transformStepResult(await this.executeStep(step));
+    }
+
+    return {
+      type: "steps-found",
+      steps: [
+        {
+          id: step.hashedId,
+          op: step.op,
+          name: step.name,
+          displayName: step.displayName,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Create a step used to run the compensation for a completed step.
+   */
+  private createCompensationStep({ step, data }: Compensation): FoundStep {
+    const id = [step.id, "undo"].join(".");
+
+    return {
+      id,
+      hashedId: _internals.hashId(id),
+      op: StepOpCode.StepPlanned,
+      name: id,
+      displayName: `${step.displayName ?? step.id}: undo`,
+      fn: () => step.undo?.(data),
+      fulfilled: false,
+      handled: true,
+      handle: () => false,
+    };
+  }
+
+  /**
+   * Returns whether the given error will fail the function permanently,
+   * either because it can't be retried or because this is the final attempt.
+   */
+  private isFinalFailure(error: unknown): boolean {
+    return isFinalFailure({
+      fn: this.options.fn,
+      attempt: this.options.data.attempt,
+      error,
+      isFailureHandler: this.options.isFailureHandler,
+    });
+  }
+
   private getCheckpointHandler(type: keyof CheckpointHandlers) {
     return this.checkpointHandlers[type] as (
       checkpoint: Checkpoint
@@ -406,6 +584,7 @@ class V1InngestExecution extends InngestExecution implements IInngestExecution {
     opts,
     fn,
     displayName,
+    policy,
   }: FoundStep): Promise<OutgoingOp> {
     this.timeout?.clear();
     await this.state.hooks?.afterMemoization?.();
@@ -421,10 +600,17 @@ class V1InngestExecution extends InngestExecution implements IInngestExecution {
     this.state.executingStep = outgoingOp;
     this.debug(`executing step "${id}"`);
 
+    const stopTimer = this.options.timer?.start("step", displayName ?? name);
+
     return (
-      runAsPromise(fn)
+      this.raceStepTimeout(
+        outgoingOp,
+        policy?.timeout,
+        runAsPromise(() => fn?.({ signal: this.abortController.signal }))
+      )
         // eslint-disable-next-line @typescript-eslint/no-misused-promises
         .finally(async () => {
+          stopTimer?.();
           await this.state.hooks?.afterExecution?.();
         })
         .then<OutgoingOp>((data) => {
@@ -444,6 +630,36 @@ class V1InngestExecution extends InngestExecution implements IInngestExecution {
     );
   }
 
+  /**
+   * If the step has a `timeout`, race its execution against a timer, aborting
+   * the execution's signal and rejecting with a `StepTimeoutError` if the timer
+   * wins.
+   */
+  private raceStepTimeout<T>(
+    step: OutgoingOp,
+    timeout: StepRunPolicy["timeout"],
+    execution: Promise<T>
+  ) {
+    if (typeof timeout === "undefined") {
+      return execution;
+    }
+
+    const timeoutMs = typeof timeout === "string" ? ms(timeout) : timeout;
+    const timer = createTimeoutPromise(timeoutMs);
+
+    return Promise.race([
+      execution,
+      timer.start().then(() => {
+        const err = new StepTimeoutError(step.name ?? step.id, timeoutMs);
+        this.abort(err);
+
+        throw err;
+      }),
+    ]).finally(() => {
+      timer.clear();
+    });
+  }
+
   /**
    * Starts execution of the user's function, including triggering checkpoints
    * and middleware hooks where appropriate.
@@ -454,6 +670,14 @@ class V1InngestExecution extends InngestExecution implements IInngestExecution {
      */
     await this.transformInput();
 
+    /**
+     * Validate incoming events after middleware has transformed them, as
+     * middleware may have changed their shape, for example by decrypting data.
+     */
+    if (this.options.client["validateEvents"]) {
+      this.options.client["schemas"]?.["validate"](this.fnArg.events);
+    }
+
     /**
      * Start the timer to time out the run if needed.
      */
@@ -581,6 +805,7 @@ class V1InngestExecution extends InngestExecution implements IInngestExecution {
     const state: V1ExecutionState = {
       stepState: this.options.stepState,
       steps: {},
+      compensations: [],
       loop,
       hasSteps: Boolean(Object.keys(this.options.stepState).length),
       stepCompletionOrder: this.options.stepCompletionOrder,
@@ -604,6 +829,7 @@ class V1InngestExecution extends InngestExecution implements IInngestExecution {
     let fnArg = {
       ...(this.options.data as { event: EventPayload }),
       step,
+      signal: this.abortController.signal,
     } as Context.Any;
 
     /**
@@ -806,7 +1032,11 @@ class V1InngestExecution extends InngestExecution implements IInngestExecution {
         ...opId,
         hashedId,
         // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
-        fn: opts?.fn ? () => opts.fn?.(...args) : undefined,
+        fn: opts?.fn ? (ctx) => opts.fn?.(ctx, ...args) : undefined,
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+        undo: opts?.undo?.(...args),
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+        policy: opts?.policy?.(...args),
         fulfilled: Boolean(stepState),
         displayName: opId.displayName ?? opId.id,
         handled: false,
@@ -821,6 +1051,10 @@ class V1InngestExecution extends InngestExecution implements IInngestExecution {
             stepState.fulfilled = true;
 
             if (typeof stepState.data !== "undefined") {
+              if (step.undo) {
+                this.state.compensations.push({ step, data: stepState.data });
+              }
+
               resolve(stepState.data);
             } else {
               this.state.recentlyRejectedStepError = new StepError(
@@ -838,6 +1072,7 @@ class V1InngestExecution extends InngestExecution implements IInngestExecution {
 
       this.state.steps[opId.id] = step;
       this.state.hasSteps = true;
+      this.options.onStepFound?.(step);
       pushStepToReport(step);
 
       /**
@@ -898,7 +1133,7 @@ class V1InngestExecution extends InngestExecution implements IInngestExecution {
   private async initializeMiddleware(): Promise<RunHookStack> {
     const ctx = this.options.data as Pick<
       Readonly<BaseContext<Inngest.Any>>,
-      "event" | "events" | "runId"
+      "event" | "events" | "runId" | "attempt"
     >;
 
     const hooks = await getHookStack(
@@ -909,6 +1144,7 @@ class V1InngestExecution extends InngestExecution implements IInngestExecution {
         fn: this.options.fn,
         steps: Object.values(this.options.stepState),
         reqArgs: this.options.reqArgs,
+        requestedRunStep: this.options.requestedRunStep,
       },
       {
         transformInput: (prev, output) => {
@@ -928,10 +1164,36 @@ class V1InngestExecution extends InngestExecution implements IInngestExecution {
             step: prev.step,
           };
         },
+        beforeResponse: (prev) => prev,
       }
     );
 
-    return hooks;
+    return this.timeMemoization(hooks);
+  }
+
+  /**
+   * Record the memoization phase in the request's timings, using the same
+   * hooks that mark it for middleware.
+   */
+  private timeMemoization(hooks: RunHookStack): RunHookStack {
+    const { timer } = this.options;
+    if (!timer) {
+      return hooks;
+    }
+
+    let stop: (() => void) | undefined;
+
+    return {
+      ...hooks,
+      beforeMemoization: async () => {
+        stop ??= timer.start("memoization");
+        await hooks.beforeMemoization?.();
+      },
+      afterMemoization: async () => {
+        stop?.();
+        await hooks.afterMemoization?.();
+      },
+    };
   }
 }
 
@@ -977,6 +1239,13 @@ export interface V1ExecutionState {
    */
   steps: Record<string, FoundStep>;
 
+  /**
+   * A list of memoized steps that have compensations, in the order in which
+   * they completed. If the function fails permanently, these are run in
+   * reverse order.
+   */
+  compensations: Compensation[];
+
   /**
    * A flag which represents whether or not steps are understood to be used in
    * this function. This is used to determine whether or not we should run
@@ -1033,6 +1302,14 @@ export interface V1ExecutionState {
   recentlyRejectedStepError?: StepError;
 }
 
+/**
+ * A memoized step with a compensation, along with the data it resolved with.
+ */
+interface Compensation {
+  step: FoundStep;
+  data: unknown;
+}
+
 const hashId = (id: string): string => {
   return sha1().update(id).digest("hex");
 };
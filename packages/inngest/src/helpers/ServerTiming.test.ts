@@ -0,0 +1,90 @@
+import { ServerTiming } from "@local/helpers/ServerTiming";
+
+describe("ServerTiming", () => {
+  describe("getHeader", () => {
+    test("sums top-level timings with the same name", async () => {
+      const timer = new ServerTiming();
+
+      await timer.wrap("action", () => wait(5), "doing things");
+      await timer.wrap("action", () => wait(5));
+
+      const action = timer.getHeader();
+
+      expect(action).toMatch(/^action;desc="doing things";dur=\d+(\.\d+)?$/);
+      expect(Number(action?.split("dur=")[1])).toBeGreaterThanOrEqual(9);
+    });
+
+    test("ignores timings that haven't ended", () => {
+      const timer = new ServerTiming();
+      timer.start("pending");
+
+      expect(timer.getHeader()).toBe("");
+    });
+
+    test("doesn't include nested timings", async () => {
+      const timer = new ServerTiming();
+
+      await timer.wrap("action", (actionTimer) =>
+        actionTimer.wrap("step", () => wait(1))
+      );
+
+      expect(timer.getHeader()).toMatch(/^action;dur=/);
+    });
+  });
+
+  describe("getTree", () => {
+    test("exports nested timings in the order they started", async () => {
+      const timer = new ServerTiming();
+
+      await timer.wrap("handler", () => undefined);
+      await timer.wrap("action", async (actionTimer) => {
+        const stop = actionTimer.start("memoization");
+        stop();
+
+        await actionTimer.wrap("step", () => wait(1), "a");
+        await actionTimer.wrap("step", () => wait(1), "b");
+      });
+      timer.start("res");
+
+      const tree = timer.getTree();
+
+      expect(tree).toMatchObject([
+        { name: "handler", children: [] },
+        {
+          name: "action",
+          children: [
+            { name: "memoization", children: [] },
+            { name: "step", description: "a", children: [] },
+            { name: "step", description: "b", children: [] },
+          ],
+        },
+        { name: "res", children: [] },
+      ]);
+
+      // The last timing hasn't ended
+      expect(tree[2]).not.toHaveProperty("duration");
+
+      const [, action] = tree;
+      const [, a, b] = action?.children ?? [];
+
+      expect(a?.duration).toBeGreaterThan(0);
+      expect(b?.start).toBeGreaterThan(a?.start ?? 0);
+      expect(action?.duration).toBeGreaterThan(a?.duration ?? 0);
+    });
+
+    test("only records the first stop of a timing", async () => {
+      const timer = new ServerTiming();
+
+      const stop = timer.start("step");
+      stop();
+      const [{ duration } = { duration: undefined }] = timer.getTree();
+
+      await wait(5);
+      stop();
+
+      expect(timer.getTree()[0]?.duration).toBe(duration);
+    });
+  });
+});
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
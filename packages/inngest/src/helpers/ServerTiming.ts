@@ -1,59 +1,101 @@
 import { runAsPromise } from "./promises";
 
+interface Timer {
+  description?: string;
+  start: number;
+  end?: number;
+
+  /**
+   * Timings nested within this timer.
+   */
+  children: ServerTiming;
+}
+
 interface Timing {
   description: string;
-  timers: {
-    start?: number;
-    end?: number;
-  }[];
+  timers: Timer[];
+}
+
+/**
+ * A single period of time recorded by a {@link ServerTiming}, along with any
+ * periods of time nested within it.
+ *
+ * All times are in milliseconds, with sub-millisecond precision where the
+ * runtime supports it.
+ */
+export interface TimingSpan {
+  name: string;
+  description?: string;
+
+  /**
+   * The time the span started, relative to the creation of the root timer.
+   */
+  start: number;
+
+  /**
+   * How long the span took. Unset if the span has not ended.
+   */
+  duration?: number;
+
+  children: TimingSpan[];
 }
 
+/**
+ * Get the current time in milliseconds, using a high resolution clock if one
+ * is available.
+ */
+const now = (): number => {
+  if (
+    typeof performance !== "undefined" &&
+    typeof performance.now === "function"
+  ) {
+    return performance.now();
+  }
+
+  return Date.now();
+};
+
+/**
+ * Round a number of milliseconds to the nearest microsecond.
+ */
+const round = (ms: number): number => Math.round(ms * 1000) / 1000;
+
 /**
  * A class to manage timing functions and arbitrary periods of time before
  * generating a `Server-Timing` header for use in HTTP responses.
  *
- * This is a very simple implementation that does not support nested timings or
- * fractions of a millisecond.
+ * Timings can be nested by using the timer given to a function passed to
+ * `wrap()`, and the full tree can be exported using `getTree()`. Only
+ * top-level timings are added to the header.
  */
 export class ServerTiming {
   private timings: Record<string, Timing> = {};
 
+  /**
+   * The time that every span in this tree is relative to.
+   */
+  private readonly origin: number;
+
+  constructor(origin: number = now()) {
+    this.origin = origin;
+  }
+
   /**
    * Start a timing. Returns a function that, when called, will stop the timing
    * and add it to the header.
+   *
+   * Stopping a timing more than once has no effect.
    */
   public start(name: string, description?: string): () => void {
-    if (!this.timings[name]) {
-      this.timings[name] = {
-        description: description ?? "",
-        timers: [],
-      };
-    }
-
-    const index =
-      (this.timings[name] as Timing).timers.push({ start: Date.now() }) - 1;
-
-    return (): void => {
-      const target = this.timings[name];
-      if (!target) {
-        return console.warn(`Timing "${name}" does not exist`);
-      }
-
-      const timer = target.timers[index];
-      if (!timer) {
-        return console.warn(
-          `Timer ${index} for timing "${name}" does not exist`
-        );
-      }
-
-      timer.end = Date.now();
-    };
+    return this.startTimer(name, description).stop;
   }
 
   /**
    * Add a piece of arbitrary, untimed information to the header. Common use
    * cases would be cache misses.
    *
+   * Untimed information is not included in `getTree()`.
+   *
    * @example
    * ```
    * timer.append("cache", "miss");
@@ -70,17 +112,22 @@ export class ServerTiming {
    * Wrap a function in a timing. The timing will be stopped and added to the
    * header when the function resolves or rejects.
    *
+   * The function is given a timer that can be used to record timings nested
+   * within this one.
+   *
    * The return value of the function will be returned from this function.
    */
-  public async wrap<T extends (...args: unknown[]) => unknown>(
+  public async wrap<T extends (timer: ServerTiming) => unknown>(
     name: string,
     fn: T,
     description?: string
   ): Promise<Awaited<ReturnType<T>>> {
-    const stop = this.start(name, description);
+    const { timer, stop } = this.startTimer(name, description);
 
     try {
-      return (await runAsPromise(fn)) as Awaited<ReturnType<T>>;
+      return (await runAsPromise(() => fn(timer.children))) as Awaited<
+        ReturnType<T>
+      >;
     } finally {
       stop();
     }
@@ -100,10 +147,12 @@ export class ServerTiming {
           return acc;
         }
 
-        const dur = timers.reduce((acc, { start, end }) => {
-          if (!start || !end) return acc;
-          return acc + (end - start);
-        }, 0);
+        const dur = round(
+          timers.reduce((acc, { start, end }) => {
+            if (!start || !end) return acc;
+            return acc + (end - start);
+          }, 0)
+        );
 
         const entry = [
           name,
@@ -120,4 +169,49 @@ export class ServerTiming {
 
     return entries.join(", ");
   }
+
+  /**
+   * Export every timing recorded so far, including nested timings, ordered by
+   * the time they started.
+   */
+  public getTree(): TimingSpan[] {
+    return Object.entries(this.timings)
+      .flatMap(([name, { timers }]) => {
+        return timers.map<TimingSpan>(
+          ({ description, start, end, children }) => ({
+            name,
+            ...(description ? { description } : {}),
+            start: round(start - this.origin),
+            ...(end === undefined ? {} : { duration: round(end - start) }),
+            children: children.getTree(),
+          })
+        );
+      })
+      .sort((a, b) => a.start - b.start);
+  }
+
+  private startTimer(
+    name: string,
+    description?: string
+  ): { timer: Timer; stop: () => void } {
+    if (!this.timings[name]) {
+      this.timings[name] = {
+        description: description ?? "",
+        timers: [],
+      };
+    }
+
+    const timer: Timer = {
+      description,
+      start: now(),
+      children: new ServerTiming(this.origin),
+    };
+    (this.timings[name] as Timing).timers.push(timer);
+
+    const stop = (): void => {
+      timer.end ??= now();
+    };
+
+    return { timer, stop };
+  }
 }
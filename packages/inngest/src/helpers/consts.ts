@@ -13,6 +13,7 @@ export enum queryKeys {
   FnId = "fnId",
   StepId = "stepId",
   DeployId = "deployId",
+  Probe = "probe",
 }
 
 export enum envKeys {
@@ -0,0 +1,105 @@
+import { EventSchemas } from "@local";
+import { buildExpression } from "@local/helpers/expressions";
+import { createClient } from "../test/helpers";
+
+const inngest = createClient({
+  id: "test",
+  schemas: new EventSchemas().fromRecord<{
+    "app/invoice.created": {
+      data: {
+        invoiceId: string;
+        amount: number;
+        items: { sku: string }[];
+        "billing-email": string;
+      };
+    };
+    "app/invoice.paid": {
+      data: { invoiceId: string; amount: number };
+    };
+  }>(),
+});
+
+type Client = typeof inngest;
+
+describe("buildExpression", () => {
+  test("compares fields of the triggering and incoming events", () => {
+    expect(
+      buildExpression<Client, "app/invoice.created", "app/invoice.paid">(
+        ({ event, async }) =>
+          async("data.invoiceId").eq(event("data.invoiceId"))
+      )
+    ).toBe("async.data.invoiceId == event.data.invoiceId");
+  });
+
+  test("compares fields against literals", () => {
+    expect(
+      buildExpression<Client, "app/invoice.created">(({ event, and }) =>
+        and(
+          event("data.amount").gte(100),
+          event("data.invoiceId").ne('inv_"1"'),
+          event("data.amount").in([1, 2, 3])
+        )
+      )
+    ).toBe(
+      'event.data.amount >= 100 && event.data.invoiceId != "inv_\\"1\\"" && event.data.amount in [1, 2, 3]'
+    );
+  });
+
+  test("accesses array indexes and keys that aren't identifiers", () => {
+    expect(
+      buildExpression<Client, "app/invoice.created">(({ event, or }) =>
+        or(
+          event("data.items.0.sku").eq("a"),
+          event("data.billing-email").eq(null)
+        )
+      )
+    ).toBe(
+      'event.data.items[0].sku == "a" || event.data["billing-email"] == null'
+    );
+  });
+
+  test("wraps nested conditions in parentheses where needed", () => {
+    expect(
+      buildExpression<Client, "app/invoice.created", "app/invoice.paid">(
+        ({ event, async, and, or, not }) =>
+          and(
+            async("data.invoiceId").eq(event("data.invoiceId")),
+            or(async("data.amount").gt(10), async("data.amount").lt(0)),
+            and(event("data.amount").lte(5), event("data.amount").ne(1)),
+            not(or(event("data.amount").eq(2), event("data.amount").eq(3)))
+          )
+      )
+    ).toBe(
+      "async.data.invoiceId == event.data.invoiceId && (async.data.amount > 10 || async.data.amount < 0) && event.data.amount <= 5 && event.data.amount != 1 && !(event.data.amount == 2 || event.data.amount == 3)"
+    );
+  });
+
+  test("throws for numbers that can't be used in an expression", () => {
+    expect(() =>
+      buildExpression<Client, "app/invoice.created">(({ event }) =>
+        event("data.amount").eq(Infinity)
+      )
+    ).toThrow("Cannot use Infinity in an expression");
+  });
+
+  test("fails to compile with a field that doesn't exist", () => {
+    buildExpression<Client, "app/invoice.created", "app/invoice.paid">(
+      ({ event, async }) =>
+        // @ts-expect-error Unknown field
+        event("data.invoiceID").eq(async("data.invoiceId"))
+    );
+
+    buildExpression<Client, "app/invoice.created", "app/invoice.paid">(
+      ({ event, async }) =>
+        // @ts-expect-error Field only exists on the triggering event
+        async("data.items").eq(event("data.items"))
+    );
+  });
+
+  test("fails to compile when using `async` without an incoming event", () => {
+    buildExpression<Client, "app/invoice.created">(({ async }) =>
+      // @ts-expect-error No incoming event
+      async("data.invoiceId").eq(1)
+    );
+  });
+});
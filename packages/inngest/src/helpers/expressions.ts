@@ -0,0 +1,260 @@
+import { type GetEvents, type Inngest } from "../components/Inngest";
+import { type TriggersFromClient } from "../types";
+import { type ObjectPaths } from "./types";
+
+/**
+ * A value that a field can be compared against in an expression; either a
+ * literal or another field.
+ *
+ * @public
+ */
+export type ExpressionValue =
+  | string
+  | number
+  | boolean
+  | null
+  | ExpressionField;
+
+/**
+ * A condition within an expression, created by comparing a field or by
+ * combining other conditions.
+ *
+ * @public
+ */
+export interface ExpressionCondition {
+  /**
+   * The CEL expression for this condition.
+   */
+  readonly expression: string;
+
+  /**
+   * The operator that joins the conditions within this one, if it was created
+   * using `and()` or `or()`. Used to decide when it must be wrapped in
+   * parentheses.
+   */
+  readonly operator?: "&&" | "||";
+}
+
+/**
+ * A field of an event within an expression, such as `event.data.userId`.
+ *
+ * @public
+ */
+export interface ExpressionField {
+  /**
+   * The CEL expression used to access this field.
+   */
+  readonly expression: string;
+
+  /**
+   * Check that this field is equal to the given value.
+   */
+  eq(value: ExpressionValue): ExpressionCondition;
+
+  /**
+   * Check that this field is not equal to the given value.
+   */
+  ne(value: ExpressionValue): ExpressionCondition;
+
+  /**
+   * Check that this field is greater than the given value.
+   */
+  gt(value: ExpressionValue): ExpressionCondition;
+
+  /**
+   * Check that this field is greater than or equal to the given value.
+   */
+  gte(value: ExpressionValue): ExpressionCondition;
+
+  /**
+   * Check that this field is less than the given value.
+   */
+  lt(value: ExpressionValue): ExpressionCondition;
+
+  /**
+   * Check that this field is less than or equal to the given value.
+   */
+  lte(value: ExpressionValue): ExpressionCondition;
+
+  /**
+   * Check that this field is equal to one of the given values.
+   */
+  in(values: ExpressionValue[]): ExpressionCondition;
+}
+
+/**
+ * The helpers given to {@link buildExpression} to build a condition.
+ *
+ * @public
+ */
+export interface ExpressionHelpers<
+  TEventPath extends string,
+  TAsyncPath extends string,
+> {
+  /**
+   * A field of the event that triggered the function, such as
+   * `event("data.userId")`.
+   */
+  event: (path: TEventPath) => ExpressionField;
+
+  /**
+   * A field of the incoming event being matched, such as the event being
+   * waited for by `step.waitForEvent()` or the event cancelling a function,
+   * for example `async("data.userId")`.
+   */
+  async: (path: TAsyncPath) => ExpressionField;
+
+  /**
+   * Check that every one of the given conditions is true.
+   */
+  and: (
+    ...conditions: [ExpressionCondition, ...ExpressionCondition[]]
+  ) => ExpressionCondition;
+
+  /**
+   * Check that at least one of the given conditions is true.
+   */
+  or: (
+    ...conditions: [ExpressionCondition, ...ExpressionCondition[]]
+  ) => ExpressionCondition;
+
+  /**
+   * Check that the given condition is false.
+   */
+  not: (condition: ExpressionCondition) => ExpressionCondition;
+}
+
+/**
+ * Given a dot-notation path to a field, such as `"data.items.0.id"`, return
+ * the CEL expression used to access it from `root`, such as
+ * `event.data.items[0].id`.
+ */
+const toFieldExpression = (root: string, path: string): string => {
+  return path.split(".").reduce((acc, segment) => {
+    if (/^\d+$/.test(segment)) {
+      return `${acc}[${segment}]`;
+    }
+
+    if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(segment)) {
+      return `${acc}.${segment}`;
+    }
+
+    return `${acc}[${JSON.stringify(segment)}]`;
+  }, root);
+};
+
+const toValueExpression = (value: ExpressionValue): string => {
+  if (value !== null && typeof value === "object") {
+    return value.expression;
+  }
+
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    throw new Error(`Cannot use ${value} in an expression`);
+  }
+
+  return JSON.stringify(value);
+};
+
+const createField = (root: string, path: string): ExpressionField => {
+  const expression = toFieldExpression(root, path);
+
+  const compare =
+    (operator: string) =>
+    (value: ExpressionValue): ExpressionCondition => ({
+      expression: `${expression} ${operator} ${toValueExpression(value)}`,
+    });
+
+  return {
+    expression,
+    eq: compare("=="),
+    ne: compare("!="),
+    gt: compare(">"),
+    gte: compare(">="),
+    lt: compare("<"),
+    lte: compare("<="),
+    in: (values) => ({
+      expression: `${expression} in [${values
+        .map(toValueExpression)
+        .join(", ")}]`,
+    }),
+  };
+};
+
+const combine =
+  (operator: "&&" | "||") =>
+  (
+    ...conditions: [ExpressionCondition, ...ExpressionCondition[]]
+  ): ExpressionCondition => {
+    if (conditions.length === 1) {
+      return conditions[0];
+    }
+
+    return {
+      operator,
+      expression: conditions
+        .map((condition) => {
+          return condition.operator && condition.operator !== operator
+            ? `(${condition.expression})`
+            : condition.expression;
+        })
+        .join(` ${operator} `),
+    };
+  };
+
+const helpers: ExpressionHelpers<string, string> = {
+  event: (path) => createField("event", path),
+  async: (path) => createField("async", path),
+  and: combine("&&"),
+  or: combine("||"),
+  not: (condition) => ({ expression: `!(${condition.expression})` }),
+};
+
+/**
+ * Build a CEL expression for the `if` option of a trigger, a
+ * `step.waitForEvent()` call, or a `cancelOn` option, checking that every
+ * field used exists on the events given at compile time.
+ *
+ * `TEvent` is the name of the event that triggers the function, accessed
+ * using `event()`. `TAsyncEvent` is the name of the incoming event being
+ * matched, accessed using `async()`, and can be omitted for triggers.
+ *
+ * @example
+ * ```ts
+ * const invoice = await step.waitForEvent("wait-for-payment", {
+ *   event: "app/invoice.paid",
+ *   timeout: "7d",
+ *   if: buildExpression<
+ *     typeof inngest,
+ *     "app/invoice.created",
+ *     "app/invoice.paid"
+ *   >(({ event, async, and }) =>
+ *     and(
+ *       async("data.invoiceId").eq(event("data.invoiceId")),
+ *       async("data.amount").gte(event("data.amount"))
+ *     )
+ *   ),
+ * });
+ * // => 'async.data.invoiceId == event.data.invoiceId && async.data.amount >= event.data.amount'
+ * ```
+ *
+ * @public
+ */
+export const buildExpression = <
+  TClient extends Inngest.Any,
+  TEvent extends TriggersFromClient<TClient>,
+  TAsyncEvent extends TriggersFromClient<TClient> = never,
+>(
+  build: (
+    helpers: ExpressionHelpers<
+      ObjectPaths<GetEvents<TClient, true>[TEvent]>,
+      ObjectPaths<GetEvents<TClient, true>[TAsyncEvent]>
+    >
+  ) => ExpressionCondition
+): string => {
+  return build(
+    helpers as ExpressionHelpers<
+      ObjectPaths<GetEvents<TClient, true>[TEvent]>,
+      ObjectPaths<GetEvents<TClient, true>[TAsyncEvent]>
+    >
+  ).expression;
+};
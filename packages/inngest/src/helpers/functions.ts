@@ -2,9 +2,12 @@ import { ZodError, z } from "zod";
 import { type InngestApi } from "../api/api";
 import { stepsSchemas } from "../api/schema";
 import { type InngestFunction } from "../components/InngestFunction";
+import { NonRetriableError } from "../components/NonRetriableError";
+import { StepError } from "../components/StepError";
 import {
   ExecutionVersion,
   PREFERRED_EXECUTION_VERSION,
+  type ExecutionResult,
 } from "../components/execution/InngestExecution";
 import { err, ok, type Result } from "../types";
 import { prettyError } from "./errors";
@@ -75,6 +78,73 @@ export const undefinedToNull = (v: unknown) => {
   return isUndefined ? null : v;
 };
 
+/**
+ * The default number of retries for a function if none are specified, matching
+ * the default used by Inngest.
+ */
+export const defaultRetries = 3;
+
+/**
+ * Get the number of times a run of the given function is retried after its
+ * first attempt fails.
+ */
+export const getFunctionRetries = (fn: InngestFunction.Any): number => {
+  return (fn.opts as { retries?: number }).retries ?? defaultRetries;
+};
+
+/**
+ * Whether the given `error`, thrown during the given zero-indexed `attempt` of
+ * a run of `fn`, fails the run permanently, either because the error can't be
+ * retried or because the function has no retries left.
+ *
+ * Failure handlers are never retried.
+ */
+export const isFinalFailure = ({
+  fn,
+  attempt,
+  error,
+  isFailureHandler = false,
+}: {
+  fn: InngestFunction.Any;
+  attempt: number;
+  error: unknown;
+  isFailureHandler?: boolean;
+}): boolean => {
+  if (error instanceof NonRetriableError || error instanceof StepError) {
+    return true;
+  }
+
+  return attempt >= (isFailureHandler ? 0 : getFunctionRetries(fn));
+};
+
+/**
+ * Whether the given `result` of a request made during the given zero-indexed
+ * `attempt` of a run of `fn` fails the run permanently.
+ *
+ * As well as the checks made by {@link isFinalFailure}, a rejection that
+ * the execution has already marked as not retriable is final, such as one
+ * returned once a failed run's compensations have been run, where the attempt
+ * no longer reflects the run's retries.
+ */
+export const isFinalRejection = ({
+  fn,
+  attempt,
+  result,
+}: {
+  fn: InngestFunction.Any;
+  attempt: number;
+  result: ExecutionResult | undefined;
+}): boolean => {
+  if (result?.type !== "function-rejected") {
+    return false;
+  }
+
+  return (
+    result.retriable === false ||
+    isFinalFailure({ fn, attempt, error: result.error })
+  );
+};
+
 const fnDataVersionSchema = z.object({
   version: z
     .literal(-1)
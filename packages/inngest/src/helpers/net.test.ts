@@ -1,5 +1,5 @@
 import fetchMock from "jest-fetch-mock";
-import { fetchWithAuthFallback } from "./net";
+import { fetchWithAuthFallback, getRetryDelay, parseRetryAfter } from "./net";
 
 describe("fetchWithAuthFallback", () => {
   beforeEach(() => {
@@ -63,3 +63,90 @@ describe("fetchWithAuthFallback", () => {
     expect(response.status).toEqual(500);
   });
 });
+
+describe("parseRetryAfter", () => {
+  it("should parse a number of seconds into milliseconds", () => {
+    expect(parseRetryAfter("5")).toEqual(5000);
+  });
+
+  it("should parse an HTTP date", () => {
+    const date = new Date("Wed, 21 Oct 2015 07:28:00 GMT");
+    expect(parseRetryAfter(date.toUTCString())).toEqual(date);
+  });
+
+  it("should return nothing for a missing or invalid value", () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
+
+describe("getRetryDelay", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should back off exponentially with jitter", () => {
+    jest.spyOn(Math, "random").mockReturnValue(1);
+
+    expect(
+      [0, 1, 2].map((attempt) =>
+        getRetryDelay({ attempt, initialDelay: 100, maxDelay: 10000 })
+      )
+    ).toEqual([100, 200, 400]);
+  });
+
+  it("should never wait less than half of the delay", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0);
+
+    expect(
+      getRetryDelay({ attempt: 1, initialDelay: 100, maxDelay: 10000 })
+    ).toEqual(100);
+  });
+
+  it("should not exceed the max delay", () => {
+    jest.spyOn(Math, "random").mockReturnValue(1);
+
+    expect(
+      getRetryDelay({ attempt: 10, initialDelay: 100, maxDelay: 1000 })
+    ).toEqual(1000);
+  });
+
+  it("should use a retry-after duration if given", () => {
+    expect(
+      getRetryDelay({
+        attempt: 0,
+        initialDelay: 100,
+        maxDelay: 10000,
+        retryAfter: 5000,
+      })
+    ).toEqual(5000);
+  });
+
+  it("should not wait longer than the max delay for a retry-after", () => {
+    jest.spyOn(Date, "now").mockReturnValue(0);
+
+    expect(
+      [5000, new Date(60 * 60 * 1000)].map((retryAfter) =>
+        getRetryDelay({
+          attempt: 0,
+          initialDelay: 100,
+          maxDelay: 1000,
+          retryAfter,
+        })
+      )
+    ).toEqual([1000, 1000]);
+  });
+
+  it("should use a retry-after date if given", () => {
+    jest.spyOn(Date, "now").mockReturnValue(0);
+
+    expect(
+      getRetryDelay({
+        attempt: 0,
+        initialDelay: 100,
+        maxDelay: 10000,
+        retryAfter: new Date(3000),
+      })
+    ).toEqual(3000);
+  });
+});
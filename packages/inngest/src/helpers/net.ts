@@ -35,3 +35,59 @@ export async function fetchWithAuthFallback<TFetch extends typeof fetch>({
 
   return res;
 }
+
+/**
+ * Parse the value of a `retry-after` header, which can be either a number of
+ * seconds or an HTTP date, into a value that can be given to a
+ * `RetryAfterError`.
+ */
+export const parseRetryAfter = (
+  value: string | undefined
+): number | Date | void => {
+  if (!value) {
+    return;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value) * 1000;
+  }
+
+  const date = new Date(value);
+  if (!isNaN(date.getTime())) {
+    return date;
+  }
+};
+
+/**
+ * Get the time in milliseconds to wait before retrying a request, using
+ * exponential backoff with jitter.
+ *
+ * If the server has told us when to retry using a `retry-after` header, that
+ * is respected instead, though never waiting longer than `maxDelay`.
+ */
+export const getRetryDelay = ({
+  attempt,
+  initialDelay,
+  maxDelay,
+  retryAfter,
+}: {
+  /**
+   * The zero-indexed attempt that failed.
+   */
+  attempt: number;
+  initialDelay: number;
+  maxDelay: number;
+  retryAfter?: number | Date | void;
+}): number => {
+  if (retryAfter instanceof Date) {
+    return Math.min(maxDelay, Math.max(0, retryAfter.getTime() - Date.now()));
+  }
+
+  if (typeof retryAfter === "number") {
+    return Math.min(maxDelay, retryAfter);
+  }
+
+  const delay = Math.min(maxDelay, initialDelay * 2 ** attempt);
+
+  return delay / 2 + Math.random() * (delay / 2);
+};
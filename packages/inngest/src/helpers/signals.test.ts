@@ -0,0 +1,68 @@
+import { createSignalToken, verifySignalToken } from "@local/helpers/signals";
+import { signDataWithKey } from "@local/helpers/strings";
+
+describe("signal tokens", () => {
+  const signingKey = "signkey-test-12345678";
+
+  test("creates a unique token each time", () => {
+    expect(createSignalToken(signingKey)).not.toEqual(
+      createSignalToken(signingKey)
+    );
+  });
+
+  test("verifies a token created with the same signing key", () => {
+    const token = createSignalToken(signingKey);
+
+    expect(verifySignalToken(token, { signingKey })).toBe(true);
+  });
+
+  test("ignores the signing key prefix", () => {
+    const token = createSignalToken(signingKey);
+
+    expect(
+      verifySignalToken(token, { signingKey: "signkey-prod-12345678" })
+    ).toBe(true);
+  });
+
+  test("verifies a token created with the fallback signing key", () => {
+    const token = createSignalToken(signingKey);
+
+    expect(
+      verifySignalToken(token, {
+        signingKey: "signkey-test-abcdef",
+        signingKeyFallback: signingKey,
+      })
+    ).toBe(true);
+  });
+
+  test("does not verify a token created with another signing key", () => {
+    const token = createSignalToken("signkey-test-abcdef");
+
+    expect(verifySignalToken(token, { signingKey })).toBe(false);
+  });
+
+  test("does not verify a tampered token", () => {
+    const [nonce, signature] = createSignalToken(signingKey).split(".");
+
+    expect(verifySignalToken(`${nonce}0.${signature}`, { signingKey })).toBe(
+      false
+    );
+    expect(verifySignalToken(`${nonce}`, { signingKey })).toBe(false);
+  });
+
+  test("does not verify a token that isn't a string", () => {
+    expect(verifySignalToken(undefined, { signingKey })).toBe(false);
+    expect(verifySignalToken({}, { signingKey })).toBe(false);
+  });
+
+  test("requires a signing key to create a token", () => {
+    expect(() => createSignalToken("")).toThrow("signing key is required");
+  });
+
+  test("rejects every token if there is no signing key", () => {
+    const forged = `attacker.${signDataWithKey("attacker", "")}`;
+
+    expect(verifySignalToken(forged, { signingKey: "" })).toBe(false);
+    expect(verifySignalToken(forged)).toBe(false);
+  });
+});
@@ -0,0 +1,131 @@
+import { envKeys } from "./consts";
+import { processEnv } from "./env";
+import { signDataWithKey } from "./strings";
+
+/**
+ * The key used to carry a signal token, both in the `data` of the event that
+ * resumes a `step.waitForSignal()` call and in the query string of its
+ * callback URL.
+ */
+export const signalKey = "signal";
+
+/**
+ * The separator between the nonce and signature of a signal token.
+ */
+const signalTokenSeparator = ".";
+
+/**
+ * Create a new unique signal token, signed using the given signing key, for
+ * use with `step.waitForSignal()`.
+ *
+ * The token is made up of a random nonce and its signature, so that it can be
+ * verified using {@link verifySignalToken} when it's received from an
+ * external system.
+ *
+ * Throws if no signing key is given, as a token signed with an empty key
+ * could be forged by anyone.
+ */
+export const createSignalToken = (signingKey: string | undefined): string => {
+  if (!signingKey) {
+    throw new Error(
+      `A signing key is required to create signal tokens; set the ${envKeys.InngestSigningKey} environment variable or pass a \`signingKey\` to the client`
+    );
+  }
+
+  const nonce = createSecureNonce();
+
+  return [nonce, signDataWithKey(nonce, signingKey)].join(signalTokenSeparator);
+};
+
+/**
+ * Verify that a signal token given to an external system by
+ * `step.waitForSignal()` was created by this app and has not been tampered
+ * with.
+ *
+ * If no signing keys are given, the `INNGEST_SIGNING_KEY` and
+ * `INNGEST_SIGNING_KEY_FALLBACK` environment variables are used. Every token
+ * is rejected if there is no signing key to verify it with.
+ *
+ * @example
+ * ```ts
+ * app.post("/webhooks/approval", async (req, res) => {
+ *   const { signal } = req.query;
+ *
+ *   if (!verifySignalToken(signal)) {
+ *     return res.sendStatus(401);
+ *   }
+ *
+ *   await inngest.send({ name: "app/approval.received", data: { signal } });
+ *   res.sendStatus(200);
+ * });
+ * ```
+ *
+ * @public
+ */
+export const verifySignalToken = (
+  token: unknown,
+  {
+    signingKey = processEnv(envKeys.InngestSigningKey),
+    signingKeyFallback = processEnv(envKeys.InngestSigningKeyFallback),
+  }: {
+    signingKey?: string;
+    signingKeyFallback?: string;
+  } = {}
+): boolean => {
+  if (typeof token !== "string") {
+    return false;
+  }
+
+  const separatorIndex = token.lastIndexOf(signalTokenSeparator);
+  if (separatorIndex <= 0) {
+    return false;
+  }
+
+  const nonce = token.slice(0, separatorIndex);
+  const signature = token.slice(separatorIndex + 1);
+
+  return [signingKey, signingKeyFallback].some((key) => {
+    return !!key && timingSafeEqual(signDataWithKey(nonce, key), signature);
+  });
+};
+
+/**
+ * Create a random hex nonce using the Web Crypto API, throwing if it isn't
+ * available rather than falling back to a predictable source of randomness.
+ */
+const createSecureNonce = (): string => {
+  const crypto = globalThis.crypto;
+
+  if (typeof crypto?.randomUUID === "function") {
+    return crypto.randomUUID().replace(/-/g, "");
+  }
+
+  if (typeof crypto?.getRandomValues === "function") {
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+      ""
+    );
+  }
+
+  throw new Error(
+    "The Web Crypto API is required to create signal tokens but is not available in this runtime"
+  );
+};
+
+/**
+ * Compare two strings in constant time, so that the time taken doesn't reveal
+ * how much of a signature was correct.
+ */
+const timingSafeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+
+  return mismatch === 0;
+};
@@ -0,0 +1,22 @@
+import { createStream } from "@local/helpers/stream";
+
+describe("createStream", () => {
+  test("calls onCancel when the stream is cancelled", async () => {
+    const onCancel = jest.fn();
+    const { stream, finalize } = await createStream({ onCancel });
+
+    await stream.cancel("gone");
+    expect(onCancel).toHaveBeenCalledWith("gone");
+
+    // Finalizing a cancelled stream is a no-op
+    expect(() => finalize({ ok: true })).not.toThrow();
+  });
+
+  test("sends the finalized data", async () => {
+    const { stream, finalize } = await createStream();
+
+    finalize({ ok: true });
+
+    await expect(new Response(stream).text()).resolves.toBe('{"ok":true}');
+  });
+});
@@ -21,6 +21,12 @@ export const createStream = (opts?: {
    * Defaults to `" "`.
    */
   value?: string;
+
+  /**
+   * Called if the stream is cancelled by its reader before it's finalized,
+   * such as when the receiving end closes the connection.
+   */
+  onCancel?: (reason: unknown) => void;
 }): Promise<{ finalize: (data: unknown) => void; stream: ReadableStream }> => {
   /**
    * We need to resolve this promise with both the stream and the `finalize`
@@ -43,22 +49,35 @@ export const createStream = (opts?: {
   // eslint-disable-next-line @typescript-eslint/no-misused-promises, no-async-promise-executor
   return new Promise(async (resolve, reject) => {
     try {
+      let heartbeat: ReturnType<typeof setInterval> | undefined;
+      let cancelled = false;
+
       const stream = new ReadableStream({
         start(controller) {
           const encoder = new TextEncoder();
 
-          const heartbeat = setInterval(() => {
+          heartbeat = setInterval(() => {
             controller.enqueue(encoder.encode(value));
           }, interval);
 
           const finalize = (data: unknown) => {
             clearInterval(heartbeat);
+
+            if (cancelled) {
+              return;
+            }
+
             controller.enqueue(encoder.encode(stringify(data)));
             controller.close();
           };
 
           passFinalize(finalize);
         },
+        cancel(reason) {
+          cancelled = true;
+          clearInterval(heartbeat);
+          opts?.onCancel?.(reason);
+        },
       });
 
       resolve({ stream, finalize: await finalizeP });
@@ -1,4 +1,9 @@
-import { slugify, stringify, timeStr } from "@local/helpers/strings";
+import {
+  createEventId,
+  slugify,
+  stringify,
+  timeStr,
+} from "@local/helpers/strings";
 
 describe("slugify", () => {
   it("Generates a slug using hyphens", () => {
@@ -48,3 +53,24 @@ describe("stringify", () => {
     expect(stringify({ a: BigInt(1), b: 2 })).toEqual(JSON.stringify({ b: 2 }));
   });
 });
+
+describe("createEventId", () => {
+  test("creates the same ID for the same name and key", () => {
+    expect(createEventId("test", ["a", 1])).toEqual(
+      createEventId("test", ["a", 1])
+    );
+  });
+
+  test("creates different IDs for different names or keys", () => {
+    const id = createEventId("test", ["a", 1]);
+
+    expect(createEventId("other", ["a", 1])).not.toEqual(id);
+    expect(createEventId("test", ["a", 2])).not.toEqual(id);
+  });
+
+  test("ignores the order of object keys", () => {
+    expect(createEventId("test", { a: 1, b: { c: 2, d: 3 } })).toEqual(
+      createEventId("test", { b: { d: 3, c: 2 }, a: 1 })
+    );
+  });
+});
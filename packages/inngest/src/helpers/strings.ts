@@ -1,4 +1,5 @@
-import { sha256 } from "hash.js";
+import canonicalize from "canonicalize";
+import { hmac, sha256 } from "hash.js";
 import { default as safeStringify } from "json-stringify-safe";
 import ms from "ms";
 import { type TimeStr } from "../types";
@@ -115,3 +116,61 @@ export const hashSigningKey = (signingKey: string | undefined): string => {
   // Decode the key from its hex representation into a bytestream
   return `${prefix}${sha256().update(key, "hex").digest("hex")}`;
 };
+
+/**
+ * Sign the given `data` with HMAC-SHA256 using the given signing key, returning
+ * the signature as a hex string. Any `signkey-*-` prefix is removed from the
+ * key before signing.
+ */
+export const signDataWithKey = (data: string, signingKey: string): string => {
+  const key = signingKey.replace(/signkey-\w+-/, "");
+
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-argument, @typescript-eslint/no-explicit-any
+  return hmac(sha256 as any, key)
+    .update(data)
+    .digest("hex");
+};
+
+/**
+ * Create a random hex nonce, using the Web Crypto API if it's available.
+ */
+export const createNonce = (): string => {
+  const bytes = new Uint8Array(16);
+
+  if (typeof globalThis.crypto?.getRandomValues === "function") {
+    globalThis.crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+};
+
+/**
+ * Create a deterministic event ID from an event's `name` and a `key` derived
+ * from its payload, such that sending the same event more than once with the
+ * same key results in the same ID, which Inngest uses to deduplicate events.
+ *
+ * The `key` can be any JSON-serializable value; object keys are sorted before
+ * hashing so that their order does not affect the resulting ID.
+ *
+ * @example
+ * ```ts
+ * await inngest.send({
+ *   id: createEventId("app/order.placed", [order.id, order.version]),
+ *   name: "app/order.placed",
+ *   data: { order },
+ * });
+ * ```
+ *
+ * @public
+ */
+export const createEventId = (name: string, key: unknown): string => {
+  return sha256()
+    .update(canonicalize([name, key]) as string)
+    .digest("hex");
+};
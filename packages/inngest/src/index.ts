@@ -7,6 +7,8 @@ export {
   type StandardEventSchemas,
   type ZodEventSchemas,
 } from "./components/EventSchemas";
+export { EventValidationError } from "./components/EventValidationError";
+export type { EventValidationIssue } from "./components/EventValidationError";
 export { Inngest } from "./components/Inngest";
 export type {
   ClientOptionsFromInngest,
@@ -27,11 +29,31 @@ export type {
   MiddlewareRegisterFn,
   MiddlewareRegisterReturn,
 } from "./components/InngestMiddleware";
+export { mockStep } from "./components/InngestStepTools";
+export type { MockedStep } from "./components/InngestStepTools";
+export { InngestTestEngine } from "./components/InngestTestEngine";
 export { NonRetriableError } from "./components/NonRetriableError";
+export { InMemoryOutbox, OutboxRelay } from "./components/Outbox";
+export type {
+  InMemoryOutboxTransaction,
+  OutboxAdapter,
+  OutboxRelayOptions,
+} from "./components/Outbox";
 export { RetryAfterError } from "./components/RetryAfterError";
+export { SendEventPartialError } from "./components/SendEventPartialError";
+export type { SendEventFailure } from "./components/SendEventPartialError";
 export { StepError } from "./components/StepError";
+export { StepTimeoutError } from "./components/StepTimeoutError";
 export { headerKeys, internalEvents, queryKeys } from "./helpers/consts";
-export { slugify } from "./helpers/strings";
+export { buildExpression } from "./helpers/expressions";
+export type {
+  ExpressionCondition,
+  ExpressionField,
+  ExpressionHelpers,
+  ExpressionValue,
+} from "./helpers/expressions";
+export { verifySignalToken } from "./helpers/signals";
+export { createEventId, slugify } from "./helpers/strings";
 export type {
   IsStringLiteral,
   StrictUnion,
@@ -39,8 +61,40 @@ export type {
   UnionKeys,
   WithoutInternal,
 } from "./helpers/types";
-export { ProxyLogger } from "./middleware/logger";
-export type { LogArg } from "./middleware/logger";
+export {
+  InMemoryDeadLetterSink,
+  deadLetterMiddleware,
+  redriveDeadLetters,
+} from "./middleware/deadLetter";
+export type {
+  DeadLetterEntry,
+  DeadLetterSink,
+  RedrivenDeadLetter,
+} from "./middleware/deadLetter";
+export { JsonLogger, ProxyLogger } from "./middleware/logger";
+export {
+  PrometheusExporter,
+  metricDefinitions,
+  metricsMiddleware,
+} from "./middleware/metrics";
+export type {
+  Metric,
+  MetricLabels,
+  MetricsExporter,
+} from "./middleware/metrics";
+export { openTelemetryMiddleware } from "./middleware/openTelemetry";
+export type {
+  OpenTelemetryApi,
+  OpenTelemetryAttributes,
+  OpenTelemetryMiddlewareOptions,
+  OpenTelemetrySpan,
+  OpenTelemetryTracer,
+} from "./middleware/openTelemetry";
+export type {
+  JsonLogLevel,
+  JsonLoggerOptions,
+  LogArg,
+} from "./middleware/logger";
 export type {
   BaseContext,
   ClientOptions,
@@ -51,11 +105,21 @@ export type {
   FailureEventPayload,
   FinishedEventPayload,
   Handler,
+  InvokeManyResult,
   LogLevel,
   OutgoingOp,
   RegisterOptions,
+  SendBufferOptions,
+  SendChunkingOptions,
   SendEventBaseOutput,
+  SendEventOptions,
+  SendRetryOptions,
+  StepFetchResponse,
+  StepBackoffOptions,
   StepOptions,
   StepOptionsOrId,
+  StepRunContext,
+  StepRunOptions,
+  StepRunOptionsOrId,
   TimeStr,
 } from "./types";
@@ -0,0 +1,287 @@
+import {
+  InMemoryDeadLetterSink,
+  InngestTestEngine,
+  NonRetriableError,
+  deadLetterMiddleware,
+  redriveDeadLetters,
+  type DeadLetterEntry,
+  type EventPayload,
+  type GetStepTools,
+  type Inngest,
+} from "@local";
+import { serializeError } from "@local/helpers/errors";
+import { internalEvents } from "@local/helpers/consts";
+import { createClient } from "../test/helpers";
+
+describe("deadLetterMiddleware", () => {
+  const setup = (
+    handler: (ctx: { step: GetStepTools<Inngest.Any> }) => unknown,
+    retries = 2
+  ) => {
+    const sink = new InMemoryDeadLetterSink();
+
+    const inngest = createClient({
+      id: "test",
+      middleware: [deadLetterMiddleware({ sink })],
+    });
+
+    const fn = inngest.createFunction(
+      { id: "fn", retries: retries as 2 },
+      { event: "test" },
+      handler
+    );
+
+    const engine = new InngestTestEngine({
+      function: fn,
+      events: [{ id: "event-id", name: "test", data: { foo: "bar" } }],
+    });
+
+    return { sink, engine };
+  };
+
+  test("writes an entry once a run exhausts its retries", async () => {
+    const { sink, engine } = setup(() => {
+      throw new Error("Oh no");
+    });
+
+    await engine.execute();
+
+    /* eslint-disable @typescript-eslint/no-unsafe-assignment */
+    expect(sink.list()).toEqual([
+      {
+        id: expect.any(String),
+        appId: "test",
+        functionId: "test-fn",
+        runId: expect.any(String),
+        event: expect.objectContaining({ id: "event-id", name: "test" }),
+        events: [expect.objectContaining({ id: "event-id", name: "test" })],
+        error: expect.objectContaining({ name: "Error", message: "Oh no" }),
+        attempt: 2,
+        failedAt: expect.any(Number),
+      },
+    ]);
+    /* eslint-enable @typescript-eslint/no-unsafe-assignment */
+  });
+
+  test("writes an entry immediately for a NonRetriableError", async () => {
+    const { sink, engine } = setup(() => {
+      throw new NonRetriableError("Oh no");
+    });
+
+    await engine.execute();
+
+    expect(sink.list()).toEqual([
+      expect.objectContaining({
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        error: expect.objectContaining({ name: "NonRetriableError" }),
+        attempt: 0,
+      }),
+    ]);
+  });
+
+  test("writes an entry once a run's compensations have been run", async () => {
+    const undo = jest.fn();
+    const { sink, engine } = setup(async ({ step }) => {
+      await step.run("reserve", () => "reserve", { undo });
+      throw new Error("Oh no");
+    }, 1);
+
+    await engine.execute();
+
+    expect(undo).toHaveBeenCalledTimes(1);
+    expect(sink.list()).toEqual([
+      expect.objectContaining({
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        error: expect.objectContaining({ name: "Error", message: "Oh no" }),
+      }),
+    ]);
+  });
+
+  test("does not write an entry if a retry succeeds", async () => {
+    let calls = 0;
+    const { sink, engine } = setup(() => {
+      if (calls++ === 0) {
+        throw new Error("Oh no");
+      }
+
+      return "done";
+    });
+
+    await engine.execute();
+
+    expect(sink.list()).toEqual([]);
+  });
+
+  test("does not write an entry for a successful run", async () => {
+    const { sink, engine } = setup(() => "done");
+
+    await engine.execute();
+
+    expect(sink.list()).toEqual([]);
+  });
+});
+
+describe("redriveDeadLetters", () => {
+  const entry = (
+    id: string,
+    functionId: string,
+    events: EventPayload[] = [{ name: "test", data: { id } }]
+  ): DeadLetterEntry => {
+    const [event = { name: "test" }] = events;
+
+    return {
+      id,
+      appId: "test",
+      functionId,
+      runId: id,
+      event,
+      events,
+      error: serializeError(new Error("Oh no")),
+      attempt: 3,
+      failedAt: 1,
+    };
+  };
+
+  const setup = (filter?: (entry: DeadLetterEntry) => boolean) => {
+    const inngest = createClient({ id: "test" });
+
+    const sink = new InMemoryDeadLetterSink();
+    sink.write(entry("a", "test-one"));
+    sink.write(entry("b", "test-two"));
+
+    const fn = inngest.createFunction(
+      { id: "redrive" },
+      { event: "redrive" },
+      ({ step }) => redriveDeadLetters({ step, sink, filter })
+    );
+
+    const invoke = jest.fn<unknown, [InngestTestEngine.Invocation]>();
+
+    const engine = new InngestTestEngine({
+      function: fn,
+      events: [{ name: "redrive", data: {} }],
+      invoke,
+    });
+
+    return { sink, engine, invoke };
+  };
+
+  test("invokes each failed function and removes the entries", async () => {
+    const { sink, engine, invoke } = setup();
+
+    const { result } = await engine.execute();
+
+    /* eslint-disable @typescript-eslint/no-unsafe-assignment */
+    expect(result).toEqual([
+      { entry: expect.objectContaining({ id: "a" }) },
+      { entry: expect.objectContaining({ id: "b" }) },
+    ]);
+    /* eslint-enable @typescript-eslint/no-unsafe-assignment */
+    expect(invoke.mock.calls.map(([invocation]) => invocation)).toMatchObject([
+      { functionId: "test-one", payload: { data: { id: "a" } } },
+      { functionId: "test-two", payload: { data: { id: "b" } } },
+    ]);
+    expect(sink.list()).toEqual([]);
+  });
+
+  test("only redrives entries matching the filter", async () => {
+    const { sink, engine, invoke } = setup(
+      (entry) => entry.functionId === "test-two"
+    );
+
+    await engine.execute();
+
+    expect(invoke).toHaveBeenCalledTimes(1);
+    expect(invoke.mock.calls[0]?.[0]).toMatchObject({
+      functionId: "test-two",
+    });
+    expect(sink.list().map(({ id }) => id)).toEqual(["a"]);
+  });
+
+  test("leaves entries for internal events and batches", async () => {
+    const { sink, engine, invoke } = setup();
+
+    sink.write(
+      entry("invoked", "test-one", [
+        { name: internalEvents.FunctionInvoked, data: {} },
+      ])
+    );
+    sink.write(
+      entry("batch", "test-one", [
+        { name: "test", data: {} },
+        { name: "test", data: {} },
+      ])
+    );
+
+    await engine.execute();
+
+    expect(invoke).toHaveBeenCalledTimes(2);
+    expect(sink.list().map(({ id }) => id)).toEqual(["invoked", "batch"]);
+  });
+
+  test("removes entries whose redriven runs fail again", async () => {
+    const { sink, engine, invoke } = setup();
+
+    invoke.mockImplementation(() => Promise.reject(new Error("Oh no")));
+
+    const { result } = await engine.execute();
+
+    expect(invoke).toHaveBeenCalledTimes(2);
+    /* eslint-disable @typescript-eslint/no-unsafe-assignment */
+    expect(result).toEqual([
+      {
+        entry: expect.objectContaining({ id: "a" }),
+        error: expect.objectContaining({ message: "Oh no" }),
+      },
+      {
+        entry: expect.objectContaining({ id: "b" }),
+        error: expect.objectContaining({ message: "Oh no" }),
+      },
+    ]);
+    /* eslint-enable @typescript-eslint/no-unsafe-assignment */
+    expect(sink.list()).toEqual([]);
+  });
+
+  test("redriven runs see the original event and can be redriven again", async () => {
+    const { engine, invoke } = setup();
+
+    await engine.execute();
+
+    const [invocation] = invoke.mock.calls[0] ?? [];
+
+    const sink = new InMemoryDeadLetterSink();
+    const inngest = createClient({
+      id: "test",
+      middleware: [deadLetterMiddleware({ sink })],
+    });
+
+    let event: EventPayload | undefined;
+    const fn = inngest.createFunction(
+      { id: "one", retries: 0 },
+      { event: "test" },
+      (ctx) => {
+        event = ctx.event;
+        throw new NonRetriableError("Oh no");
+      }
+    );
+
+    await new InngestTestEngine({
+      function: fn,
+      events: [
+        {
+          name: internalEvents.FunctionInvoked,
+          data: invocation?.payload.data as Record<string, unknown>,
+        },
+      ],
+    }).execute();
+
+    expect(event).toEqual({ name: "test", data: { id: "a" } });
+    expect(sink.list()).toEqual([
+      expect.objectContaining({
+        functionId: "test-one",
+        event: { name: "test", data: { id: "a" } },
+        events: [{ name: "test", data: { id: "a" } }],
+      }),
+    ]);
+  });
+});
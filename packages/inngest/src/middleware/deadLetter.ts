@@ -0,0 +1,340 @@
+import { type GetStepTools, type Inngest } from "../components/Inngest";
+import { referenceFunction } from "../components/InngestFunctionReference";
+import { InngestMiddleware } from "../components/InngestMiddleware";
+import { internalEvents } from "../helpers/consts";
+import { serializeError, type SerializedError } from "../helpers/errors";
+import { isFinalRejection } from "../helpers/functions";
+import { type MaybePromise } from "../helpers/types";
+import { type EventPayload } from "../types";
+
+/**
+ * A record of a function run that failed after exhausting its retries.
+ *
+ * @public
+ */
+export interface DeadLetterEntry {
+  /**
+   * A unique ID for this entry, which is the ID of the failed run.
+   */
+  id: string;
+
+  /**
+   * The ID of the app the function that failed belongs to.
+   */
+  appId: string;
+
+  /**
+   * The full ID of the function that failed, including the ID of its app.
+   */
+  functionId: string;
+
+  /**
+   * The ID of the run that failed.
+   */
+  runId: string;
+
+  /**
+   * The event that triggered the run.
+   */
+  event: EventPayload;
+
+  /**
+   * Every event that triggered the run, if it was triggered by a batch of
+   * events.
+   */
+  events: EventPayload[];
+
+  /**
+   * The error that caused the run to fail.
+   */
+  error: SerializedError;
+
+  /**
+   * The attempt that failed, starting from `0`.
+   */
+  attempt: number;
+
+  /**
+   * The time at which the run failed, as a Unix timestamp in milliseconds.
+   */
+  failedAt: number;
+}
+
+/**
+ * The result of redriving a single entry using {@link redriveDeadLetters}.
+ *
+ * @public
+ */
+export interface RedrivenDeadLetter {
+  /**
+   * The entry that was redriven.
+   */
+  entry: DeadLetterEntry;
+
+  /**
+   * The error that the redriven run failed with, if it failed again.
+   */
+  error?: SerializedError;
+}
+
+/**
+ * The key used to store the event that triggered a run in the data of the
+ * invocation that redrives it, so that the redriven run sees the original
+ * event.
+ */
+const redrivenEventKey = "_inngest_redriven_event";
+
+/**
+ * A store that failed runs are written to by {@link deadLetterMiddleware} and
+ * read from by {@link redriveDeadLetters}.
+ *
+ * @public
+ */
+export interface DeadLetterSink {
+  /**
+   * Write an entry for a run that failed after exhausting its retries.
+   */
+  write(entry: DeadLetterEntry): MaybePromise<void>;
+
+  /**
+   * List every entry in the sink.
+   */
+  list(): MaybePromise<DeadLetterEntry[]>;
+
+  /**
+   * Remove the entries with the given IDs, such as once they've been
+   * redriven.
+   */
+  remove(ids: string[]): MaybePromise<void>;
+}
+
+/**
+ * A {@link DeadLetterSink} that stores entries in memory, useful as a
+ * stand-in for a real store in tests.
+ *
+ * @public
+ */
+export class InMemoryDeadLetterSink implements DeadLetterSink {
+  private entries = new Map<string, DeadLetterEntry>();
+
+  public write(entry: DeadLetterEntry): void {
+    this.entries.set(entry.id, entry);
+  }
+
+  public list(): DeadLetterEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  public remove(ids: string[]): void {
+    ids.forEach((id) => this.entries.delete(id));
+  }
+}
+
+/**
+ * Create middleware that writes every function run that fails after
+ * exhausting its retries, or that fails with a `NonRetriableError`, to the
+ * given `sink`, so that the events that triggered them can be redriven using
+ * {@link redriveDeadLetters} once the cause has been fixed.
+ *
+ * Can be added to a client to capture failures from every function, or to
+ * individual functions.
+ *
+ * @example
+ * ```ts
+ * const sink = new MyDatabaseSink();
+ *
+ * export const inngest = new Inngest({
+ *   id: "my-app",
+ *   middleware: [deadLetterMiddleware({ sink })],
+ * });
+ * ```
+ *
+ * @public
+ */
+export const deadLetterMiddleware = ({ sink }: { sink: DeadLetterSink }) => {
+  return new InngestMiddleware({
+    name: "Inngest: Dead letter",
+    init({ client }) {
+      return {
+        onFunctionRun({ fn }) {
+          let entry: Omit<DeadLetterEntry, "error" | "failedAt"> | undefined;
+          let error: unknown;
+
+          return {
+            transformInput({ ctx }) {
+              // Failures of failure handlers are already dead-lettered via
+              // the function that originally failed.
+              if (
+                ctx.event.name === (internalEvents.FunctionFailed as string)
+              ) {
+                return;
+              }
+
+              const event = getRedrivenEvent(ctx.event);
+
+              entry = {
+                id: ctx.runId,
+                appId: client.id,
+                functionId: fn.id(client.id),
+                runId: ctx.runId,
+                event: event ?? ctx.event,
+                events: event ? [event] : ctx.events,
+                attempt: ctx.attempt,
+              };
+
+              // Redriven runs are invocations, but should see the event that
+              // triggered the run that failed.
+              if (event) {
+                return { ctx: { event, events: [event] } };
+              }
+            },
+
+            transformOutput({ result, step }) {
+              if (!step) {
+                error = result.error;
+              }
+            },
+
+            // Whether a run has failed for good is only known once the
+            // execution has decided how to respond, such as after running
+            // compensations on a later attempt.
+            async beforeResponse({ result }) {
+              if (
+                !entry ||
+                !isFinalRejection({ fn, attempt: entry.attempt, result })
+              ) {
+                return;
+              }
+
+              await sink.write({
+                ...entry,
+                error: serializeError(error),
+                failedAt: Date.now(),
+              });
+            },
+          };
+        },
+      };
+    },
+  });
+};
+
+/**
+ * Run the functions that failed in runs written to the given `sink` by
+ * {@link deadLetterMiddleware} again, such as once a bug that caused them to
+ * fail has been fixed, removing each entry from the sink once it has been
+ * redriven.
+ *
+ * Must be called from within an Inngest function, using its `step` tools.
+ * Each entry is redriven by invoking only the function that failed with the
+ * event that triggered the run, so other functions triggered by the same
+ * event don't run again. The redriven run sees that original event, rather
+ * than an invocation event, as long as the function still uses
+ * {@link deadLetterMiddleware}. Every invocation is its own step, so
+ * redriving is durable and each entry is only redriven once. If a redriven run
+ * fails again, it is written to the sink as a new entry with the original
+ * event, so it can be redriven again.
+ *
+ * Runs triggered by internal events, such as invocations and crons, or by a
+ * batch of events can't be redriven this way; their entries are left in the
+ * sink.
+ *
+ * Use `filter` to only redrive some entries, for example those for a single
+ * function.
+ *
+ * Resolves with the entries that were redriven, along with the error that
+ * each redriven run failed with if it failed again.
+ *
+ * @example
+ * ```ts
+ * inngest.createFunction(
+ *   { id: "redrive-dead-letters" },
+ *   { event: "app/dead-letters.redrive" },
+ *   async ({ step }) => {
+ *     return redriveDeadLetters({
+ *       step,
+ *       sink,
+ *       filter: (entry) => entry.functionId === "my-app-send-welcome-email",
+ *     });
+ *   }
+ * );
+ * ```
+ *
+ * @public
+ */
+export const redriveDeadLetters = async ({
+  step,
+  sink,
+  filter = () => true,
+}: {
+  step: GetStepTools<Inngest.Any>;
+  sink: DeadLetterSink;
+  filter?: (entry: DeadLetterEntry) => boolean;
+}): Promise<RedrivenDeadLetter[]> => {
+  const entries = (await step.run("list-dead-letters", async () => {
+    return (await sink.list()).filter((entry) => {
+      return canRedrive(entry) && filter(entry);
+    });
+  })) as DeadLetterEntry[];
+
+  const redriven = await Promise.all(
+    entries.map((entry): Promise<RedrivenDeadLetter> => {
+      return step
+        .invoke(`redrive-${entry.id}`, {
+          function: referenceFunction({
+            appId: entry.appId,
+            functionId: entry.functionId.slice(entry.appId.length + 1),
+          }),
+          data: {
+            ...(entry.event.data as Record<string, unknown> | undefined),
+            [redrivenEventKey]: entry.event,
+          },
+          user: entry.event.user as Record<string, unknown> | undefined,
+        })
+        .then(
+          () => ({ entry }),
+          // A failed run is written to the sink again by the middleware
+          (err: unknown) => ({ entry, error: serializeError(err) })
+        );
+    })
+  );
+
+  if (entries.length) {
+    await step.run("remove-dead-letters", () => {
+      return sink.remove(entries.map(({ id }) => id));
+    });
+  }
+
+  return redriven;
+};
+
+/**
+ * Get the event that triggered the run being redriven by the given invocation
+ * event, if it's from {@link redriveDeadLetters}.
+ */
+const getRedrivenEvent = (event: EventPayload): EventPayload | undefined => {
+  if (event.name !== (internalEvents.FunctionInvoked as string)) {
+    return;
+  }
+
+  const data = event.data as Record<string, unknown> | null | undefined;
+  const redrivenEvent = data?.[redrivenEventKey];
+
+  if (!redrivenEvent || typeof redrivenEvent !== "object") {
+    return;
+  }
+
+  return redrivenEvent as EventPayload;
+};
+
+/**
+ * Whether the run recorded by the given entry can be redriven by invoking its
+ * function with the event that triggered it.
+ */
+const canRedrive = (entry: DeadLetterEntry): boolean => {
+  const isInternal = Object.values(internalEvents).includes(
+    entry.event.name as internalEvents
+  );
+
+  return !isInternal && entry.events.length <= 1;
+};
@@ -1,9 +1,13 @@
 import { jest } from "@jest/globals";
+import { InngestTestEngine } from "@local";
 import {
   DefaultLogger,
+  JsonLogger,
   ProxyLogger,
+  type JsonLoggerOptions,
   type Logger,
 } from "@local/middleware/logger";
+import { createClient } from "../test/helpers";
 
 describe("ProxyLogger", () => {
   const buffer = [
@@ -22,7 +26,7 @@ describe("ProxyLogger", () => {
 
   const populateBuf = () => {
     buffer.forEach(({ level, args }) => {
-      const method = level as keyof ProxyLogger;
+      const method = level as keyof Logger;
       // eslint-disable-next-line @typescript-eslint/no-floating-promises
       logger[method](...args);
     });
@@ -62,3 +66,211 @@ describe("ProxyLogger", () => {
     });
   });
 });
+
+describe("JsonLogger", () => {
+  const setup = (options?: JsonLoggerOptions) => {
+    const lines: Record<string, unknown>[] = [];
+    const logger = new JsonLogger({
+      ...options,
+      write: (line) => lines.push(JSON.parse(line) as Record<string, unknown>),
+    });
+
+    return { logger, lines };
+  };
+
+  test("writes each call as a line of JSON", () => {
+    const { logger, lines } = setup();
+
+    logger.info("hello", "world", 3, { userId: "123" });
+
+    expect(lines).toEqual([
+      {
+        level: "info",
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        time: expect.any(String),
+        msg: "hello world 3",
+        userId: "123",
+      },
+    ]);
+  });
+
+  test("adds errors as `err`", () => {
+    const { logger, lines } = setup();
+
+    logger.error("failed", new TypeError("Oh no"));
+
+    expect(lines[0]).toMatchObject({
+      level: "error",
+      msg: "failed",
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      err: { name: "TypeError", message: "Oh no", stack: expect.any(String) },
+    });
+  });
+
+  test("drops lines below the configured level", () => {
+    const { logger, lines } = setup({ level: "warn" });
+
+    logger.debug("a");
+    logger.info("b");
+    logger.warn("c");
+    logger.error("d");
+
+    expect(lines.map(({ msg }) => msg)).toEqual(["c", "d"]);
+  });
+
+  test("adds the metadata of child loggers", () => {
+    const { logger, lines } = setup({ metadata: { app: "test" } });
+
+    logger.child({ runID: "run" }).child({ stepId: "a" }).info("hello");
+    logger.info("parent");
+
+    expect(lines[0]).toMatchObject({
+      app: "test",
+      runID: "run",
+      stepId: "a",
+      msg: "hello",
+    });
+    expect(lines[1]).not.toHaveProperty("runID");
+  });
+
+  test("redacts configured keys at any depth", () => {
+    const { logger, lines } = setup({
+      redact: ["password", "token"],
+      metadata: { token: "abc" },
+    });
+
+    logger.info("login", {
+      user: { name: "Jo", password: "hunter2" },
+      attempts: [{ password: "letmein" }],
+    });
+
+    expect(lines[0]).toMatchObject({
+      token: "[REDACTED]",
+      user: { name: "Jo", password: "[REDACTED]" },
+      attempts: [{ password: "[REDACTED]" }],
+    });
+  });
+
+  test("redacts objects that are referenced more than once", () => {
+    const { logger, lines } = setup({ redact: ["password"] });
+
+    const creds = { user: "Jo", password: "hunter2" };
+    logger.info("login", { a: creds, b: creds });
+
+    expect(lines[0]).toMatchObject({
+      a: { user: "Jo", password: "[REDACTED]" },
+      b: { user: "Jo", password: "[REDACTED]" },
+    });
+  });
+
+  test("writes lines containing circular references and bigints", () => {
+    const { logger, lines } = setup({ redact: ["password"] });
+
+    const creds: Record<string, unknown> = { password: "hunter2" };
+    creds.self = creds;
+    logger.info("login", { creds, count: BigInt(1) });
+
+    expect(lines[0]).toMatchObject({
+      msg: "login",
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      creds: { password: "[REDACTED]", self: expect.any(String) },
+    });
+    expect(JSON.stringify(lines[0])).not.toContain("hunter2");
+  });
+
+  test("adds the run's context to lines logged in a function", async () => {
+    const { logger, lines } = setup();
+    const inngest = createClient({ id: "test", logger });
+
+    const fn = inngest.createFunction(
+      { id: "fn", name: "My function" },
+      { event: "test" },
+      async ({ step, logger }) => {
+        await step.run("a", () => {
+          logger.info("in step");
+        });
+
+        logger.info("after step");
+      }
+    );
+
+    await new InngestTestEngine({
+      function: fn,
+      events: [{ name: "test", data: {} }],
+    }).execute();
+
+    const context = {
+      runID: expect.any(String) as string,
+      eventName: "test",
+      functionName: "My function",
+      functionId: "test-fn",
+      attempt: 0,
+    };
+
+    expect(lines).toEqual([
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      expect.objectContaining({ ...context, stepId: "a", msg: "in step" }),
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      expect.objectContaining({ ...context, msg: "after step" }),
+    ]);
+    expect(lines[1]).not.toHaveProperty("stepId");
+  });
+
+  test("only adds a step's context to lines logged by the step", async () => {
+    const { logger, lines } = setup();
+    const inngest = createClient({ id: "test", logger });
+    const wait = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+    const fn = inngest.createFunction(
+      { id: "fn" },
+      { event: "test" },
+      async ({ step, logger }) => {
+        await Promise.all([
+          step.run("a", async () => {
+            await wait(20);
+            logger.info("in step");
+          }),
+          wait(5).then(() => logger.info("outside step")),
+        ]);
+      }
+    );
+
+    await new InngestTestEngine({
+      function: fn,
+      events: [{ name: "test", data: {} }],
+    }).execute();
+
+    expect(lines.filter(({ msg }) => msg === "in step")).toEqual([
+      expect.objectContaining({ stepId: "a" }),
+    ]);
+
+    const outside = lines.filter(({ msg }) => msg === "outside step");
+    expect(outside.length).toBeGreaterThan(0);
+    outside.forEach((line) => expect(line).not.toHaveProperty("stepId"));
+  });
+
+  test("doesn't change the steps of functions using other loggers", async () => {
+    const logger = new DefaultLogger();
+    const child = jest.fn((_metadata: Record<string, unknown>) => logger);
+    Object.assign(logger, { child });
+    const inngest = createClient({ id: "test", logger });
+
+    const fn = inngest.createFunction(
+      { id: "fn" },
+      { event: "test" },
+      async ({ step }) => {
+        await step.run("a", () => "a");
+      }
+    );
+
+    await new InngestTestEngine({
+      function: fn,
+      events: [{ name: "test", data: {} }],
+    }).execute();
+
+    expect(child.mock.calls.map(([metadata]) => metadata)).not.toContainEqual(
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      expect.objectContaining({ stepId: expect.anything() })
+    );
+  });
+});
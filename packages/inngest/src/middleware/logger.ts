@@ -1,3 +1,6 @@
+import { stringify } from "../helpers/strings";
+import { type MaybePromise } from "../helpers/types";
+
 /**
  * All kinds of arguments can come through
  *
@@ -42,6 +45,249 @@ export class DefaultLogger implements Logger {
   }
 }
 
+/**
+ * The level of a log line written by {@link JsonLogger}.
+ *
+ * @public
+ */
+export type JsonLogLevel = "debug" | "info" | "warn" | "error";
+
+const jsonLogLevels: Record<JsonLogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+/**
+ * Options for {@link JsonLogger}.
+ *
+ * @public
+ */
+export interface JsonLoggerOptions {
+  /**
+   * The lowest level to write. Lines logged at lower levels are dropped.
+   *
+   * Defaults to `"info"`.
+   */
+  level?: JsonLogLevel;
+
+  /**
+   * Keys whose values are replaced with `"[REDACTED]"` wherever they appear,
+   * in metadata or in any object logged, at any depth.
+   *
+   * @example
+   * ```ts
+   * new JsonLogger({ redact: ["password", "authorization"] });
+   * ```
+   */
+  redact?: string[];
+
+  /**
+   * Metadata added to every line.
+   */
+  metadata?: Record<string, unknown>;
+
+  /**
+   * Where to write each line of JSON to.
+   *
+   * Defaults to `console.log`.
+   */
+  write?: (line: string) => void;
+}
+
+const redactedValue = "[REDACTED]";
+
+/**
+ * The parts of `AsyncLocalStorage` used to scope metadata to a callback.
+ */
+interface MetadataStorage {
+  getStore(): Record<string, unknown> | undefined;
+  run<R>(store: Record<string, unknown>, fn: () => R): R;
+}
+
+let metadataStorage: Promise<MetadataStorage | undefined> | undefined;
+let loadedMetadataStorage: MetadataStorage | undefined;
+
+/**
+ * Load `AsyncLocalStorage` if the runtime supports it, resolving to
+ * `undefined` if it doesn't.
+ */
+const getMetadataStorage = (): Promise<MetadataStorage | undefined> => {
+  return (metadataStorage ??= import("node:async_hooks").then(
+    ({ AsyncLocalStorage }) => {
+      return (loadedMetadataStorage = new AsyncLocalStorage());
+    },
+    () => undefined
+  ));
+};
+
+/**
+ * Run `fn`, adding the given `metadata` to every line written by a
+ * {@link JsonLogger} while it runs, including from any async work it starts,
+ * such as the ID of the step being run.
+ *
+ * This relies on `AsyncLocalStorage`, so in runtimes that don't support it,
+ * `fn` is run without adding any metadata.
+ */
+export const runWithLogMetadata = async <T>(
+  metadata: Record<string, unknown>,
+  fn: () => MaybePromise<T>
+): Promise<T> => {
+  const storage = await getMetadataStorage();
+  if (!storage) {
+    return fn();
+  }
+
+  return storage.run({ ...storage.getStore(), ...metadata }, fn);
+};
+
+/**
+ * A logger that writes each call as a single line of JSON, including the
+ * level, the time, the message, and any metadata.
+ *
+ * When used as the client's `logger`, every line logged from within a function
+ * has the run's ID, function ID, event name, and attempt added to it. In
+ * runtimes that support `AsyncLocalStorage`, lines logged while a step is
+ * running also have the step's ID added to them.
+ *
+ * Strings and other values given are joined to create the `msg`, the keys of
+ * any plain objects are added to the line, and any error is added as `err`.
+ *
+ * @example
+ * ```ts
+ * export const inngest = new Inngest({
+ *   id: "my-app",
+ *   logger: new JsonLogger({ redact: ["password"] }),
+ * });
+ *
+ * // In a function
+ * logger.info("Created user", { userId: "123" });
+ * // => {"level":"info","time":"...","msg":"Created user","runID":"...","userId":"123"}
+ * ```
+ *
+ * @public
+ */
+export class JsonLogger implements Logger {
+  private readonly options: JsonLoggerOptions;
+
+  constructor(options: JsonLoggerOptions = {}) {
+    this.options = options;
+  }
+
+  info(...args: LogArg[]) {
+    this.log("info", args);
+  }
+
+  warn(...args: LogArg[]) {
+    this.log("warn", args);
+  }
+
+  error(...args: LogArg[]) {
+    this.log("error", args);
+  }
+
+  debug(...args: LogArg[]) {
+    this.log("debug", args);
+  }
+
+  /**
+   * Create a logger that adds the given `metadata` to every line, as well as
+   * any metadata of this logger.
+   */
+  child(metadata: Record<string, unknown>): JsonLogger {
+    return new JsonLogger({
+      ...this.options,
+      metadata: { ...this.options.metadata, ...metadata },
+    });
+  }
+
+  private log(level: JsonLogLevel, args: LogArg[]) {
+    if (jsonLogLevels[level] < jsonLogLevels[this.options.level ?? "info"]) {
+      return;
+    }
+
+    const messages: string[] = [];
+    let fields: Record<string, unknown> = {};
+    let err: unknown;
+
+    args.forEach((arg) => {
+      if (arg instanceof Error) {
+        err = {
+          name: arg.name,
+          message: arg.message,
+          stack: arg.stack,
+        };
+      } else if (isPlainObject(arg)) {
+        fields = { ...fields, ...arg };
+      } else if (typeof arg === "string") {
+        messages.push(arg);
+      } else {
+        messages.push(stringify(arg));
+      }
+    });
+
+    const line = this.redact({
+      level,
+      time: new Date().toISOString(),
+      ...(messages.length ? { msg: messages.join(" ") } : {}),
+      ...this.options.metadata,
+      ...loadedMetadataStorage?.getStore(),
+      ...fields,
+      ...(err ? { err } : {}),
+    });
+
+    (this.options.write ?? console.log)(stringify(line));
+  }
+
+  /**
+   * Copy the given value with any configured keys redacted.
+   *
+   * Each object is only copied once, so objects that appear more than once,
+   * including circular references, refer to the same redacted copy.
+   */
+  private redact(
+    value: unknown,
+    copies = new WeakMap<object, unknown>()
+  ): unknown {
+    const keys = this.options.redact;
+    if (!keys?.length || typeof value !== "object" || value === null) {
+      return value;
+    }
+
+    if (copies.has(value)) {
+      return copies.get(value);
+    }
+
+    if (Array.isArray(value)) {
+      const copy: unknown[] = [];
+      copies.set(value, copy);
+      value.forEach((item) => copy.push(this.redact(item, copies)));
+
+      return copy;
+    }
+
+    const copy: Record<string, unknown> = {};
+    copies.set(value, copy);
+    Object.entries(value).forEach(([key, item]) => {
+      copy[key] = keys.includes(key)
+        ? redactedValue
+        : this.redact(item, copies);
+    });
+
+    return copy;
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const proto = Object.getPrototypeOf(value) as unknown;
+  return proto === Object.prototype || proto === null;
+};
+
 /**
  * ProxyLogger aims to provide a thin wrapper on user's provided logger.
  * It's expected to be turned on and off based on the function execution
@@ -98,7 +344,13 @@ export class ProxyLogger implements Logger {
     // server runtimes should just let the logger do their thing since most of them
     // should have already figured what to do in those environments, be it threading or
     // something else.
-    if (this.logger.constructor.name !== DefaultLogger.name) {
+    //
+    // Neither the default logger nor the JSON logger buffer anything.
+    if (
+      ![DefaultLogger.name, JsonLogger.name].includes(
+        this.logger.constructor.name
+      )
+    ) {
       await new Promise((resolve) => {
         setTimeout(() => resolve(null), 1000);
       });
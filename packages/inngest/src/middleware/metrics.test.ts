@@ -0,0 +1,309 @@
+import { jest } from "@jest/globals";
+import {
+  InngestTestEngine,
+  NonRetriableError,
+  PrometheusExporter,
+  metricDefinitions,
+  metricsMiddleware,
+  type InngestFunction,
+  type Metric,
+  type MetricLabels,
+  type MetricsExporter,
+} from "@local";
+import {
+  ExecutionVersion,
+  PREFERRED_EXECUTION_VERSION,
+} from "@local/components/execution/InngestExecution";
+import { fromPartial } from "@total-typescript/shoehorn";
+import { createClient } from "../test/helpers";
+
+class TestExporter implements MetricsExporter {
+  public counters: { name: string; labels: MetricLabels; value: number }[] = [];
+  public observations: { name: string; labels: MetricLabels; value: number }[] =
+    [];
+
+  increment(metric: Metric, labels: MetricLabels, value: number) {
+    this.counters.push({ name: metric.name, labels, value });
+  }
+
+  observe(metric: Metric, labels: MetricLabels, value: number) {
+    this.observations.push({ name: metric.name, labels, value });
+  }
+
+  count(metric: Metric) {
+    return this.counters
+      .filter(({ name }) => name === metric.name)
+      .reduce((acc, { value }) => acc + value, 0);
+  }
+}
+
+describe("metricsMiddleware", () => {
+  const setup = () => {
+    const exporter = new TestExporter();
+    const fetch = jest.fn(() =>
+      Promise.resolve(
+        new Response(JSON.stringify({ status: 200, ids: ["a", "b"] }), {
+          status: 200,
+        })
+      )
+    );
+
+    const inngest = createClient({
+      id: "test",
+      eventKey: "event-key",
+      isDev: false,
+      fetch: fetch as unknown as typeof globalThis.fetch,
+      middleware: [metricsMiddleware({ exporter })],
+    });
+
+    return { exporter, inngest };
+  };
+
+  const execute = (fn: InngestFunction.Any) => {
+    return new InngestTestEngine({
+      function: fn,
+      events: [{ name: "test", data: {} }],
+    }).execute();
+  };
+
+  test("records a completed run and its steps", async () => {
+    const { exporter, inngest } = setup();
+
+    const fn = inngest.createFunction(
+      { id: "fn" },
+      { event: "test" },
+      async ({ step }) => {
+        await step.run("a", () => "a");
+        return "done";
+      }
+    );
+
+    await execute(fn);
+
+    expect(exporter.count(metricDefinitions.runsStarted)).toBe(1);
+    expect(exporter.count(metricDefinitions.runsCompleted)).toBe(1);
+    expect(exporter.count(metricDefinitions.runsFailed)).toBe(0);
+
+    const durations = exporter.observations.filter(
+      ({ name }) => name === metricDefinitions.stepDuration.name
+    );
+    expect(durations).toHaveLength(1);
+    expect(durations[0]?.labels).toEqual({
+      function_id: "test-fn",
+      status: "ok",
+    });
+    expect(durations[0]?.value).toBeGreaterThanOrEqual(0);
+
+    // One request to find the step, one to run it, and one to finish the run
+    expect(
+      exporter.observations
+        .filter(({ name }) => name === metricDefinitions.memoizedSteps.name)
+        .map(({ value }) => value)
+    ).toEqual([0, 0, 1]);
+  });
+
+  test("times a step's own function rather than the whole execution", async () => {
+    const { exporter, inngest } = setup();
+
+    const fn = inngest.createFunction(
+      { id: "fn" },
+      { event: "test" },
+      async ({ step }) => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        await step.run("a", () => "a");
+      }
+    );
+
+    await execute(fn);
+
+    const durations = exporter.observations.filter(
+      ({ name }) => name === metricDefinitions.stepDuration.name
+    );
+    expect(durations).toHaveLength(1);
+    expect(durations[0]?.value).toBeLessThan(0.05);
+  });
+
+  test("records the results of v0 executions", async () => {
+    const { exporter, inngest } = setup();
+
+    const fn = inngest.createFunction(
+      { id: "fn" },
+      { event: "test" },
+      () => "done"
+    );
+
+    await fn["createExecution"]({
+      version: ExecutionVersion.V0,
+      partialOptions: {
+        data: fromPartial({ event: { name: "test", data: {} } }),
+        runId: "run",
+        stepState: {},
+        stepCompletionOrder: [],
+        reqArgs: [],
+      },
+    }).start();
+
+    expect(exporter.count(metricDefinitions.runsCompleted)).toBe(1);
+  });
+
+  test("records failed runs and whether they will be retried", async () => {
+    const { exporter, inngest } = setup();
+
+    const fn = inngest.createFunction({ id: "fn" }, { event: "test" }, () => {
+      throw new NonRetriableError("Oh no");
+    });
+
+    await execute(fn);
+
+    expect(exporter.counters).toContainEqual({
+      name: metricDefinitions.runsFailed.name,
+      labels: { function_id: "test-fn", retriable: "false" },
+      value: 1,
+    });
+    expect(exporter.count(metricDefinitions.runsCompleted)).toBe(0);
+  });
+
+  test("records failed runs as not retriable once retries are exhausted", async () => {
+    const { exporter, inngest } = setup();
+
+    const fn = inngest.createFunction(
+      { id: "fn", retries: 1 },
+      { event: "test" },
+      () => {
+        throw new Error("Oh no");
+      }
+    );
+
+    await execute(fn);
+
+    const failures = exporter.counters.filter(
+      ({ name }) => name === metricDefinitions.runsFailed.name
+    );
+    expect(failures.map(({ labels }) => labels.retriable)).toEqual([
+      "true",
+      "false",
+    ]);
+  });
+
+  test("records steps that error", async () => {
+    const { exporter, inngest } = setup();
+
+    const fn = inngest.createFunction(
+      { id: "fn" },
+      { event: "test" },
+      async ({ step }) => {
+        await step.run("a", () => {
+          throw new Error("Oh no");
+        });
+      }
+    );
+
+    await execute(fn);
+
+    expect(exporter.observations).toContainEqual(
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      expect.objectContaining({
+        name: metricDefinitions.stepDuration.name,
+        labels: { function_id: "test-fn", status: "error" },
+      })
+    );
+  });
+
+  test("records steps that could not be found", async () => {
+    jest.useFakeTimers();
+    const { exporter, inngest } = setup();
+
+    const fn = inngest.createFunction(
+      { id: "fn" },
+      { event: "test" },
+      async ({ step }) => {
+        await step.run("a", () => "a");
+      }
+    );
+
+    const execution = fn["createExecution"]({
+      version: PREFERRED_EXECUTION_VERSION,
+      partialOptions: {
+        data: fromPartial({ event: { name: "test", data: {} } }),
+        runId: "run",
+        stepState: {},
+        stepCompletionOrder: [],
+        reqArgs: [],
+        requestedRunStep: "missing",
+      },
+    });
+
+    try {
+      const result = execution.start();
+
+      // Steps are only reported as missing after waiting for them to be found
+      await jest.advanceTimersByTimeAsync(10_000);
+
+      await expect(result).resolves.toMatchObject({ type: "step-not-found" });
+      expect(exporter.count(metricDefinitions.stepsNotFound)).toBe(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test("records events sent", async () => {
+    const { exporter, inngest } = setup();
+
+    await inngest.send([
+      { name: "a", data: {} },
+      { name: "b", data: {} },
+    ]);
+
+    expect(exporter.count(metricDefinitions.eventsSent)).toBe(2);
+  });
+});
+
+describe("PrometheusExporter", () => {
+  test("renders nothing before any metrics are recorded", () => {
+    expect(new PrometheusExporter().metrics()).toBe("");
+  });
+
+  test("renders counters", () => {
+    const exporter = new PrometheusExporter();
+
+    exporter.increment(metricDefinitions.runsStarted, { function_id: "a" }, 1);
+    exporter.increment(metricDefinitions.runsStarted, { function_id: "a" }, 2);
+    exporter.increment(
+      metricDefinitions.runsStarted,
+      { function_id: 'b"\\' },
+      1
+    );
+
+    expect(exporter.metrics()).toBe(
+      [
+        "# HELP inngest_function_runs_started_total Function runs started.",
+        "# TYPE inngest_function_runs_started_total counter",
+        'inngest_function_runs_started_total{function_id="a"} 3',
+        'inngest_function_runs_started_total{function_id="b\\"\\\\"} 1',
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("renders histograms", () => {
+    const exporter = new PrometheusExporter();
+    const metric = { name: "duration", help: "Duration.", buckets: [1, 5] };
+
+    exporter.observe(metric, { status: "ok", function_id: "a" }, 0.5);
+    exporter.observe(metric, { function_id: "a", status: "ok" }, 3);
+    exporter.observe(metric, { function_id: "a", status: "ok" }, 10);
+
+    expect(exporter.metrics()).toBe(
+      [
+        "# HELP duration Duration.",
+        "# TYPE duration histogram",
+        'duration_bucket{function_id="a",le="1",status="ok"} 1',
+        'duration_bucket{function_id="a",le="5",status="ok"} 2',
+        'duration_bucket{function_id="a",le="+Inf",status="ok"} 3',
+        'duration_sum{function_id="a",status="ok"} 13.5',
+        'duration_count{function_id="a",status="ok"} 3',
+        "",
+      ].join("\n")
+    );
+  });
+});
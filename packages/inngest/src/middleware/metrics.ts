@@ -0,0 +1,400 @@
+import {
+  InngestMiddleware,
+  type MiddlewareRunInputChanges,
+} from "../components/InngestMiddleware";
+import { isFinalRejection } from "../helpers/functions";
+import { StepOpCode, type StepRunContext } from "../types";
+
+/**
+ * Labels that identify a single series of a metric, such as the function a
+ * run belongs to.
+ *
+ * @public
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * A metric recorded by {@link metricsMiddleware}.
+ *
+ * @public
+ */
+export interface Metric {
+  /**
+   * The name of the metric, such as `"inngest_function_runs_started_total"`.
+   */
+  name: string;
+
+  /**
+   * A description of what the metric measures.
+   */
+  help: string;
+
+  /**
+   * For histograms, the upper bounds of the buckets that observations are
+   * counted in, in ascending order.
+   */
+  buckets?: number[];
+}
+
+/**
+ * Receives the metrics recorded by {@link metricsMiddleware}, to store them or
+ * send them elsewhere.
+ *
+ * @public
+ */
+export interface MetricsExporter {
+  /**
+   * Increment the counter `metric` for the series with the given `labels` by
+   * `value`.
+   */
+  increment(metric: Metric, labels: MetricLabels, value: number): void;
+
+  /**
+   * Observe `value` in the histogram `metric` for the series with the given
+   * `labels`.
+   */
+  observe(metric: Metric, labels: MetricLabels, value: number): void;
+}
+
+/**
+ * Every metric recorded by {@link metricsMiddleware}.
+ *
+ * @public
+ */
+export const metricDefinitions = {
+  runsStarted: {
+    name: "inngest_function_runs_started_total",
+    help: "Function runs started.",
+  },
+  runsCompleted: {
+    name: "inngest_function_runs_completed_total",
+    help: "Function runs that completed successfully.",
+  },
+  runsFailed: {
+    name: "inngest_function_runs_failed_total",
+    help: "Function attempts that failed, labelled by whether they will be retried.",
+  },
+  stepDuration: {
+    name: "inngest_step_duration_seconds",
+    help: "Time taken to run the function given to step.run().",
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  },
+  memoizedSteps: {
+    name: "inngest_memoized_steps",
+    help: "Number of memoized steps given to each request.",
+    buckets: [0, 1, 5, 10, 25, 50, 100, 250, 500, 1000],
+  },
+  eventsSent: {
+    name: "inngest_events_sent_total",
+    help: "Events sent to Inngest.",
+  },
+  stepsNotFound: {
+    name: "inngest_steps_not_found_total",
+    help: "Requests to run a step that could not be found.",
+  },
+} satisfies Record<string, Metric>;
+
+/**
+ * Create middleware that records metrics for every function run and event
+ * sent, passing them to the given `exporter`.
+ *
+ * Metrics are derived from the lifecycle of each request, so functions need
+ * no instrumentation of their own. Every metric for a function run is
+ * labelled with its `function_id`.
+ *
+ * See {@link metricDefinitions} for the metrics that are recorded.
+ *
+ * @example
+ * ```ts
+ * const exporter = new PrometheusExporter();
+ *
+ * export const inngest = new Inngest({
+ *   id: "my-app",
+ *   middleware: [metricsMiddleware({ exporter })],
+ * });
+ * ```
+ *
+ * @public
+ */
+export const metricsMiddleware = ({
+  exporter,
+}: {
+  exporter: MetricsExporter;
+}) => {
+  return new InngestMiddleware({
+    name: "Inngest: Metrics",
+    init({ client }) {
+      return {
+        onFunctionRun({ fn, ctx: { attempt }, steps, requestedRunStep }) {
+          const labels = { function_id: fn.id(client.id) };
+          let stepStartedAt: number | undefined;
+          let stepEndedAt: number | undefined;
+
+          exporter.observe(
+            metricDefinitions.memoizedSteps,
+            labels,
+            steps.length
+          );
+
+          return {
+            transformInput({ ctx }): MiddlewareRunInputChanges {
+              // Only the first request of a run has no memoized state and
+              // isn't asked to run a particular step.
+              if (ctx.attempt === 0 && !steps.length && !requestedRunStep) {
+                exporter.increment(metricDefinitions.runsStarted, labels, 1);
+              }
+
+              const { step } = ctx;
+
+              return {
+                ctx: {
+                  // Time the step's own function, rather than the whole
+                  // execution it's run in.
+                  step: {
+                    ...step,
+                    run: (
+                      idOrOptions: Parameters<typeof step.run>[0],
+                      fn: (runCtx: StepRunContext) => unknown,
+                      opts?: Parameters<typeof step.run>[2]
+                    ) => {
+                      return step.run(
+                        idOrOptions,
+                        async (runCtx) => {
+                          stepStartedAt = Date.now();
+
+                          try {
+                            return await fn(runCtx);
+                          } finally {
+                            stepEndedAt = Date.now();
+                          }
+                        },
+                        opts
+                      );
+                    },
+                  },
+                },
+              };
+            },
+
+            beforeResponse({ result }) {
+              switch (result?.type) {
+                case "function-resolved":
+                  exporter.increment(
+                    metricDefinitions.runsCompleted,
+                    labels,
+                    1
+                  );
+                  break;
+
+                case "function-rejected":
+                  exporter.increment(
+                    metricDefinitions.runsFailed,
+                    {
+                      ...labels,
+                      retriable: String(
+                        !isFinalRejection({ fn, attempt, result })
+                      ),
+                    },
+                    1
+                  );
+                  break;
+
+                case "step-ran":
+                  if (
+                    stepStartedAt !== undefined &&
+                    stepEndedAt !== undefined
+                  ) {
+                    exporter.observe(
+                      metricDefinitions.stepDuration,
+                      {
+                        ...labels,
+                        status:
+                          result.step.op === StepOpCode.StepError ||
+                          typeof result.step.error !== "undefined"
+                            ? "error"
+                            : "ok",
+                      },
+                      (stepEndedAt - stepStartedAt) / 1000
+                    );
+                  }
+                  break;
+
+                case "step-not-found":
+                  exporter.increment(
+                    metricDefinitions.stepsNotFound,
+                    labels,
+                    1
+                  );
+                  break;
+              }
+            },
+          };
+        },
+
+        onSendEvent() {
+          return {
+            transformOutput({ result }) {
+              if (result.ids.length) {
+                exporter.increment(
+                  metricDefinitions.eventsSent,
+                  {},
+                  result.ids.length
+                );
+              }
+            },
+          };
+        },
+      };
+    },
+  });
+};
+
+type PrometheusSeries =
+  | { labels: MetricLabels; value: number }
+  | { labels: MetricLabels; counts: number[]; sum: number; count: number };
+
+/**
+ * A {@link MetricsExporter} that keeps metrics in memory and renders them in
+ * the Prometheus text format, to be scraped from a route of your own.
+ *
+ * @example
+ * ```ts
+ * const exporter = new PrometheusExporter();
+ *
+ * app.get("/metrics", (req, res) => {
+ *   res.type(exporter.contentType).send(exporter.metrics());
+ * });
+ * ```
+ *
+ * @public
+ */
+export class PrometheusExporter implements MetricsExporter {
+  /**
+   * The content type to serve the output of `metrics()` with.
+   */
+  public readonly contentType = "text/plain; version=0.0.4; charset=utf-8";
+
+  private families = new Map<
+    string,
+    {
+      metric: Metric;
+      type: "counter" | "histogram";
+      series: Map<string, PrometheusSeries>;
+    }
+  >();
+
+  public increment(metric: Metric, labels: MetricLabels, value: number): void {
+    const series = this.getSeries(metric, "counter", labels, () => ({
+      labels,
+      value: 0,
+    }));
+
+    if ("value" in series) {
+      series.value += value;
+    }
+  }
+
+  public observe(metric: Metric, labels: MetricLabels, value: number): void {
+    const buckets = metric.buckets ?? [];
+    const series = this.getSeries(metric, "histogram", labels, () => ({
+      labels,
+      counts: buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+
+    if ("counts" in series) {
+      buckets.forEach((bucket, i) => {
+        if (value <= bucket) {
+          series.counts[i]++;
+        }
+      });
+
+      series.sum += value;
+      series.count++;
+    }
+  }
+
+  /**
+   * Render every metric recorded so far in the Prometheus text format.
+   */
+  public metrics(): string {
+    const lines: string[] = [];
+
+    this.families.forEach(({ metric, type, series }) => {
+      lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+      lines.push(`# TYPE ${metric.name} ${type}`);
+
+      series.forEach((s) => {
+        if ("value" in s) {
+          lines.push(`${metric.name}${formatLabels(s.labels)} ${s.value}`);
+          return;
+        }
+
+        (metric.buckets ?? []).forEach((bucket, i) => {
+          lines.push(
+            `${metric.name}_bucket${formatLabels({
+              ...s.labels,
+              le: String(bucket),
+            })} ${s.counts[i]}`
+          );
+        });
+
+        lines.push(
+          `${metric.name}_bucket${formatLabels({ ...s.labels, le: "+Inf" })} ${
+            s.count
+          }`,
+          `${metric.name}_sum${formatLabels(s.labels)} ${s.sum}`,
+          `${metric.name}_count${formatLabels(s.labels)} ${s.count}`
+        );
+      });
+    });
+
+    return lines.length ? `${lines.join("\n")}\n` : "";
+  }
+
+  private getSeries(
+    metric: Metric,
+    type: "counter" | "histogram",
+    labels: MetricLabels,
+    create: () => PrometheusSeries
+  ): PrometheusSeries {
+    let family = this.families.get(metric.name);
+    if (!family) {
+      family = { metric, type, series: new Map() };
+      this.families.set(metric.name, family);
+    }
+
+    const key = formatLabels(labels);
+    let series = family.series.get(key);
+    if (!series) {
+      series = create();
+      family.series.set(key, series);
+    }
+
+    return series;
+  }
+}
+
+const escapeHelp = (help: string): string => {
+  return help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+};
+
+const formatLabels = (labels: MetricLabels): string => {
+  const entries = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b));
+
+  if (!entries.length) {
+    return "";
+  }
+
+  return `{${entries
+    .map(([key, value]) => {
+      const escaped = value
+        .replace(/\\/g, "\\\\")
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, "\\n");
+
+      return `${key}="${escaped}"`;
+    })
+    .join(",")}}`;
+};
@@ -0,0 +1,368 @@
+import {
+  InngestTestEngine,
+  openTelemetryMiddleware,
+  type InngestFunction,
+  type EventPayload,
+  type OpenTelemetryApi,
+  type OpenTelemetryAttributes,
+} from "@local";
+import { type IsEqual } from "@local/helpers/types";
+import { StepOpCode } from "@local/types";
+import { assertType, createClient } from "../test/helpers";
+
+interface TestContext {
+  span?: TestSpan;
+  remote?: string;
+  traceId?: string;
+}
+
+class TestSpan {
+  public attributes: OpenTelemetryAttributes;
+  public exceptions: Error[] = [];
+  public status: { code: number; message?: string } | undefined;
+  public ended = false;
+  public startTime: number | undefined;
+  public endTime: number | undefined;
+
+  constructor(
+    public name: string,
+    public parent: TestContext,
+    options?: { attributes?: OpenTelemetryAttributes; startTime?: number }
+  ) {
+    this.attributes = { ...options?.attributes };
+    this.startTime = options?.startTime;
+  }
+
+  setAttributes(attributes: OpenTelemetryAttributes) {
+    Object.assign(this.attributes, attributes);
+  }
+
+  setStatus(status: { code: number; message?: string }) {
+    this.status = status;
+  }
+
+  recordException(exception: Error) {
+    this.exceptions.push(exception);
+  }
+
+  end(endTime?: number) {
+    this.ended = true;
+    this.endTime = endTime;
+  }
+}
+
+/**
+ * An in-memory stand-in for `@opentelemetry/api` that records every span and
+ * propagates the name of the current span as the trace context.
+ */
+const createApi = () => {
+  const spans: TestSpan[] = [];
+
+  const api: OpenTelemetryApi = {
+    trace: {
+      getTracer: () => ({
+        startSpan: (name, options, context) => {
+          const span = new TestSpan(name, context as TestContext, options);
+          spans.push(span);
+
+          return span;
+        },
+      }),
+      setSpan: (context, span) => ({ ...(context as TestContext), span }),
+      setSpanContext: (context, { traceId }) => ({
+        ...(context as TestContext),
+        traceId,
+      }),
+    },
+    context: {
+      active: () => ({}),
+    },
+    propagation: {
+      inject: (context, carrier) => {
+        const { span } = context as TestContext;
+        if (span instanceof TestSpan) {
+          carrier.traceparent = span.name;
+        }
+      },
+      extract: (context, carrier) => ({
+        ...(context as TestContext),
+        remote: carrier.traceparent,
+      }),
+    },
+  };
+
+  return { api, spans };
+};
+
+describe("openTelemetryMiddleware", () => {
+  const setup = (
+    opts?: Omit<Parameters<typeof openTelemetryMiddleware>[0], "api">
+  ) => {
+    const { api, spans } = createApi();
+    const fetch = jest.fn(() =>
+      Promise.resolve(
+        new Response(JSON.stringify({ status: 200, ids: ["id"] }), {
+          status: 200,
+        })
+      )
+    );
+
+    const inngest = createClient({
+      id: "test",
+      eventKey: "event-key",
+      isDev: false,
+      fetch: fetch as unknown as typeof globalThis.fetch,
+      middleware: [openTelemetryMiddleware({ api, ...opts })],
+    });
+
+    return { spans, fetch, inngest };
+  };
+
+  const execute = (
+    fn: InngestFunction.Any,
+    events: [EventPayload, ...EventPayload[]] = [{ name: "test", data: {} }]
+  ) => {
+    return new InngestTestEngine({ function: fn, events }).execute();
+  };
+
+  test("creates a span for each request and each step", async () => {
+    const { spans, inngest } = setup();
+
+    const fn = inngest.createFunction(
+      { id: "fn" },
+      { event: "test" },
+      async ({ step }) => {
+        const a = await step.run("a", () => "a");
+        assertType<IsEqual<typeof a, string>>(true);
+
+        return "done";
+      }
+    );
+
+    await execute(fn);
+
+    // One request to find the step, one to run it, and one to finish the run
+    const requestSpans = spans.filter(({ name }) => name === "inngest.request");
+    expect(requestSpans).toHaveLength(3);
+    requestSpans.forEach((span) => {
+      expect(span.ended).toBe(true);
+      expect(span.attributes).toMatchObject({
+        "inngest.function.id": "test-fn",
+        "inngest.event.name": "test",
+        "inngest.attempt": 0,
+      });
+    });
+
+    const stepSpans = spans.filter(({ name }) => name === "inngest.step");
+    expect(stepSpans).toHaveLength(1);
+    expect(stepSpans[0]).toMatchObject({
+      ended: true,
+      attributes: {
+        "inngest.step.id": "a",
+        "inngest.step.name": "a",
+        "inngest.step.op": StepOpCode.StepRun,
+        "inngest.attempt": 0,
+      },
+      parent: { span: requestSpans[1] },
+    });
+  });
+
+  test("times steps from when they start running", async () => {
+    const { spans, inngest } = setup();
+    let startedAt = 0;
+
+    const fn = inngest.createFunction(
+      { id: "fn" },
+      { event: "test" },
+      async ({ step }) => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+
+        await step.run("a", async () => {
+          startedAt = Date.now();
+          await new Promise((resolve) => setTimeout(resolve, 10));
+        });
+      }
+    );
+
+    await execute(fn);
+
+    const stepSpan = spans.find(({ name }) => name === "inngest.step");
+    expect(stepSpan?.startTime).toBeGreaterThanOrEqual(startedAt - 1);
+    expect(stepSpan?.startTime).toBeLessThanOrEqual(startedAt);
+    expect(stepSpan?.endTime).toBeGreaterThanOrEqual(startedAt + 9);
+  });
+
+  test("creates a span for the whole run once it has finished", async () => {
+    const { spans, inngest } = setup();
+
+    const fn = inngest.createFunction(
+      { id: "fn" },
+      { event: "test" },
+      async ({ step }) => {
+        await step.run("a", () => "a");
+      }
+    );
+
+    await execute(fn, [{ name: "test", data: {}, ts: 1000 }]);
+
+    const runSpans = spans.filter(({ name }) => name === "inngest.run");
+    expect(runSpans).toHaveLength(1);
+    expect(runSpans[0]).toMatchObject({
+      ended: true,
+      startTime: 1000,
+      attributes: {
+        "inngest.function.id": "test-fn",
+        "inngest.event.name": "test",
+      },
+    });
+
+    // Every span of the run is in the same trace
+    const traceIds = new Set(
+      spans
+        .filter(({ name }) => name !== "inngest.step")
+        .map(({ parent }) => parent.traceId)
+    );
+    expect(traceIds.size).toBe(1);
+    expect([...traceIds][0]).toHaveLength(32);
+  });
+
+  test("records errors on the spans", async () => {
+    const { spans, inngest } = setup();
+
+    const fn = inngest.createFunction(
+      { id: "fn", retries: 0 },
+      { event: "test" },
+      async ({ step }) => {
+        await step.run("a", () => {
+          throw new Error("Oh no");
+        });
+      }
+    );
+
+    await execute(fn);
+
+    const stepSpan = spans.find(({ name }) => name === "inngest.step");
+    expect(stepSpan?.exceptions).toEqual([new Error("Oh no")]);
+    expect(stepSpan?.status).toEqual({ code: 2, message: "Oh no" });
+
+    const lastRequestSpan = spans
+      .filter(({ name }) => name === "inngest.request")
+      .pop();
+    expect(lastRequestSpan?.status).toMatchObject({ code: 2 });
+
+    const runSpan = spans.find(({ name }) => name === "inngest.run");
+    expect(runSpan?.status).toMatchObject({ code: 2 });
+  });
+
+  test("only ends the run once it has failed for good", async () => {
+    const { spans, inngest } = setup();
+
+    const fn = inngest.createFunction(
+      { id: "fn", retries: 1 },
+      { event: "test" },
+      () => {
+        throw new Error("Oh no");
+      }
+    );
+
+    await execute(fn);
+
+    const runSpans = spans.filter(({ name }) => name === "inngest.run");
+    expect(runSpans).toHaveLength(1);
+    expect(runSpans[0]?.attributes).toMatchObject({ "inngest.attempt": 1 });
+  });
+
+  test("ends the run once its compensations have been run", async () => {
+    const { spans, inngest } = setup();
+
+    const fn = inngest.createFunction(
+      { id: "fn", retries: 1 },
+      { event: "test" },
+      async ({ step }) => {
+        await step.run("reserve", () => "reserve", { undo: () => undefined });
+        throw new Error("Oh no");
+      }
+    );
+
+    await execute(fn);
+
+    const runSpans = spans.filter(({ name }) => name === "inngest.run");
+    expect(runSpans).toHaveLength(1);
+    expect(runSpans[0]?.exceptions).toEqual([new Error("Oh no")]);
+  });
+
+  test("doesn't add trace context to sent events by default", async () => {
+    const { fetch, inngest } = setup();
+
+    const fn = inngest.createFunction(
+      { id: "fn" },
+      { event: "test" },
+      async ({ step }) => {
+        await step.sendEvent("send", {
+          name: "downstream",
+          data: { foo: 1 },
+        });
+      }
+    );
+
+    await execute(fn);
+
+    const calls = fetch.mock.calls as unknown as [string, { body: string }][];
+    const sent = calls.flatMap(
+      ([, { body }]) => JSON.parse(body) as EventPayload[]
+    );
+
+    expect(sent).toEqual([
+      expect.objectContaining({ name: "downstream", data: { foo: 1 } }),
+    ]);
+  });
+
+  test("propagates trace context when sending events", async () => {
+    const { fetch, inngest } = setup({ propagate: true });
+
+    const fn = inngest.createFunction(
+      { id: "fn" },
+      { event: "test" },
+      async ({ step }) => {
+        await step.sendEvent("send", {
+          name: "downstream",
+          data: { foo: 1 },
+        });
+      }
+    );
+
+    await execute(fn);
+
+    const calls = fetch.mock.calls as unknown as [string, { body: string }][];
+    const sent = calls.flatMap(
+      ([, { body }]) => JSON.parse(body) as EventPayload[]
+    );
+
+    expect(sent).toEqual([
+      expect.objectContaining({
+        name: "downstream",
+        data: { foo: 1, _otel: { traceparent: "inngest.request" } },
+      }),
+    ]);
+  });
+
+  test("joins the trace of the event that triggered the run", async () => {
+    const { spans, inngest } = setup();
+    let data: unknown;
+
+    await execute(
+      inngest.createFunction({ id: "fn" }, { event: "test" }, ({ event }) => {
+        data = (event as EventPayload).data;
+      }),
+      [{ name: "test", data: { foo: 1, _otel: { traceparent: "upstream" } } }]
+    );
+
+    expect(spans[0]).toMatchObject({
+      name: "inngest.request",
+      parent: { remote: "upstream" },
+    });
+
+    // The trace context isn't given to the function
+    expect(data).toEqual({ foo: 1 });
+  });
+});
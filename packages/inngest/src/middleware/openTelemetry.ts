@@ -0,0 +1,424 @@
+import { sha256 } from "hash.js";
+import {
+  InngestMiddleware,
+  type MiddlewareRunInputChanges,
+} from "../components/InngestMiddleware";
+import { type ExecutionResult } from "../components/execution/InngestExecution";
+import { isFinalRejection } from "../helpers/functions";
+import { type OutgoingOp, type StepRunContext } from "../types";
+
+/**
+ * The values that can be set as attributes of a span.
+ *
+ * @public
+ */
+export type OpenTelemetryAttributes = Record<string, string | number | boolean>;
+
+/**
+ * The parts of an OpenTelemetry `Span` used by
+ * {@link openTelemetryMiddleware}.
+ *
+ * @public
+ */
+export interface OpenTelemetrySpan {
+  setAttributes(attributes: OpenTelemetryAttributes): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): void;
+  end(endTime?: number): void;
+}
+
+/**
+ * The parts of an OpenTelemetry `Tracer` used by
+ * {@link openTelemetryMiddleware}.
+ *
+ * @public
+ */
+export interface OpenTelemetryTracer {
+  startSpan(
+    name: string,
+    options?: { attributes?: OpenTelemetryAttributes; startTime?: number },
+    context?: unknown
+  ): OpenTelemetrySpan;
+}
+
+/**
+ * The parts of the `@opentelemetry/api` package used by
+ * {@link openTelemetryMiddleware}. Passing the package itself is all that's
+ * needed, so that the SDK doesn't depend on a particular version of it.
+ *
+ * @public
+ */
+export interface OpenTelemetryApi {
+  trace: {
+    getTracer(name: string): OpenTelemetryTracer;
+    setSpan(context: unknown, span: OpenTelemetrySpan): unknown;
+    setSpanContext(
+      context: unknown,
+      spanContext: {
+        traceId: string;
+        spanId: string;
+        traceFlags: number;
+        isRemote?: boolean;
+      }
+    ): unknown;
+  };
+  context: {
+    active(): unknown;
+  };
+  propagation: {
+    inject(context: unknown, carrier: Record<string, string>): void;
+    extract(context: unknown, carrier: Record<string, string>): unknown;
+  };
+}
+
+/**
+ * Options for {@link openTelemetryMiddleware}.
+ *
+ * @public
+ */
+export interface OpenTelemetryMiddlewareOptions {
+  /**
+   * The `@opentelemetry/api` package, used to create spans and to propagate
+   * trace context between runs.
+   *
+   * @example
+   * ```ts
+   * import * as otel from "@opentelemetry/api";
+   *
+   * openTelemetryMiddleware({ api: otel });
+   * ```
+   */
+  api: OpenTelemetryApi;
+
+  /**
+   * The name of the tracer to create spans with.
+   *
+   * Defaults to `"inngest"`.
+   */
+  tracerName?: string;
+
+  /**
+   * Whether to add trace context to the `data` of events sent using
+   * `step.sendEvent()` and of functions invoked using `step.invoke()`, under
+   * the `_otel` key, so that the runs they trigger join the same trace.
+   *
+   * This changes the payloads that are sent, so any schemas for those events
+   * must allow the extra key. If the receiving function also uses this
+   * middleware, the key is removed from `event.data` before it sees it.
+   *
+   * Defaults to `false`.
+   */
+  propagate?: boolean;
+}
+
+/**
+ * The key in an event's `data` that trace context is propagated with.
+ */
+const traceContextKey = "_otel";
+
+/**
+ * The value of `TraceFlags.SAMPLED` in OpenTelemetry.
+ */
+const sampledTraceFlags = 1;
+
+/**
+ * The characters used to encode a ULID, such as a run ID.
+ */
+const ulidAlphabet = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+/**
+ * The value of `StatusCode.ERROR` in OpenTelemetry.
+ */
+const errorStatusCode = 2;
+
+const recordError = (span: OpenTelemetrySpan, error: unknown) => {
+  const err =
+    error instanceof Error
+      ? error
+      : new Error(typeof error === "string" ? error : "Unknown error");
+
+  span.recordException(err);
+  span.setStatus({ code: errorStatusCode, message: err.message });
+};
+
+/**
+ * Get the time in milliseconds that a run started from its ID, which is a
+ * ULID, falling back to the time its event was received.
+ */
+const getRunStartTime = (
+  runId: string,
+  eventTs: number | undefined
+): number | undefined => {
+  if (!/^[0-9A-HJKMNP-TV-Z]{26}$/i.test(runId)) {
+    return eventTs;
+  }
+
+  return runId
+    .slice(0, 10)
+    .toUpperCase()
+    .split("")
+    .reduce((acc, char) => acc * 32 + ulidAlphabet.indexOf(char), 0);
+};
+
+/**
+ * Remove any propagated trace context from an event's `data`, so that it
+ * doesn't reach the function or its event schemas.
+ */
+const withoutTraceContext = <T extends { data?: unknown }>(event: T): T => {
+  const data = event.data as Record<string, unknown> | null | undefined;
+  if (!data || typeof data !== "object" || !(traceContextKey in data)) {
+    return event;
+  }
+
+  const { [traceContextKey]: _, ...rest } = data;
+
+  return { ...event, data: rest };
+};
+
+const getStepAttributes = (
+  step: Readonly<Omit<OutgoingOp, "id">>
+): OpenTelemetryAttributes => {
+  return {
+    "inngest.step.id": step.name ?? "",
+    "inngest.step.name": step.displayName ?? step.name ?? "",
+    "inngest.step.op": step.op,
+  };
+};
+
+/**
+ * Create middleware that emits OpenTelemetry spans for function runs and the
+ * steps run within them.
+ *
+ * An `inngest.request` span is created for every request to run a function,
+ * covering memoization and execution, with an `inngest.step` span for any
+ * step run during it. Once a run has finished, an `inngest.run` span covering
+ * the whole run, from when it started to the end of its last request, is
+ * emitted too. Spans are tagged with the run ID, function ID, attempt, and,
+ * for steps, the step's ID, name, and op code.
+ *
+ * Every span of a run is part of the same trace. If `propagate` is enabled,
+ * trace context is added to events sent using `step.sendEvent()` and to
+ * functions invoked using `step.invoke()`, so that the runs they trigger join
+ * that trace too.
+ *
+ * @example
+ * ```ts
+ * import * as otel from "@opentelemetry/api";
+ *
+ * export const inngest = new Inngest({
+ *   id: "my-app",
+ *   middleware: [openTelemetryMiddleware({ api: otel })],
+ * });
+ * ```
+ *
+ * @public
+ */
+export const openTelemetryMiddleware = ({
+  api,
+  tracerName = "inngest",
+  propagate = false,
+}: OpenTelemetryMiddlewareOptions) => {
+  const tracer = api.trace.getTracer(tracerName);
+
+  return new InngestMiddleware({
+    name: "Inngest: OpenTelemetry",
+    init({ client }) {
+      return {
+        onFunctionRun({ fn, ctx: { runId, event, attempt } }) {
+          const runAttributes: OpenTelemetryAttributes = {
+            "inngest.run.id": runId,
+            "inngest.function.id": fn.id(client.id),
+            "inngest.attempt": attempt,
+          };
+
+          /**
+           * Every request for a run is a child of the same context, so that
+           * they're all part of one trace. This is the trace context sent
+           * with the triggering event if there is one, otherwise a context
+           * derived from the run's ID.
+           */
+          const carrier = (event.data as Record<string, unknown> | null)?.[
+            traceContextKey
+          ];
+          const runContext =
+            carrier && typeof carrier === "object"
+              ? api.propagation.extract(
+                  api.context.active(),
+                  carrier as Record<string, string>
+                )
+              : (() => {
+                  const hash = sha256().update(runId).digest("hex");
+
+                  return api.trace.setSpanContext(api.context.active(), {
+                    traceId: hash.slice(0, 32),
+                    spanId: hash.slice(32, 48),
+                    traceFlags: sampledTraceFlags,
+                    isRemote: true,
+                  });
+                })();
+
+          const requestSpan = tracer.startSpan(
+            "inngest.request",
+            {
+              attributes: {
+                ...runAttributes,
+                "inngest.event.name": event.name,
+              },
+            },
+            runContext
+          );
+          const requestContext = api.trace.setSpan(runContext, requestSpan);
+
+          let executionStartedAt: number | undefined;
+          let executionEndedAt: number | undefined;
+          let stepStartedAt: number | undefined;
+          let stepEndedAt: number | undefined;
+
+          const withTraceContext = <T extends { data?: unknown }>(
+            payload: T
+          ): T => {
+            const carrier: Record<string, string> = {};
+            api.propagation.inject(requestContext, carrier);
+
+            return {
+              ...payload,
+              data: {
+                ...(payload.data as Record<string, unknown> | undefined),
+                [traceContextKey]: carrier,
+              },
+            };
+          };
+
+          /**
+           * The error the function failed with during this request, if any.
+           */
+          let runError: unknown;
+
+          /**
+           * Ends the run's span if the run is over, either because the
+           * function has returned or because it has failed for good.
+           */
+          const endRun = (result: ExecutionResult | undefined) => {
+            if (
+              result?.type !== "function-resolved" &&
+              !isFinalRejection({ fn, attempt, result })
+            ) {
+              return;
+            }
+
+            const runSpan = tracer.startSpan(
+              "inngest.run",
+              {
+                attributes: {
+                  ...runAttributes,
+                  "inngest.event.name": event.name,
+                },
+                startTime: getRunStartTime(runId, event.ts),
+              },
+              runContext
+            );
+
+            if (result?.type === "function-rejected") {
+              recordError(runSpan, runError ?? result.error);
+            }
+
+            runSpan.end();
+          };
+
+          return {
+            transformInput({ ctx }): MiddlewareRunInputChanges {
+              const { step } = ctx;
+
+              return {
+                ctx: {
+                  event: withoutTraceContext(ctx.event),
+                  events: ctx.events.map(withoutTraceContext),
+                  step: {
+                    ...step,
+                    run: (
+                      idOrOptions: Parameters<typeof step.run>[0],
+                      fn: (runCtx: StepRunContext) => unknown,
+                      opts?: Parameters<typeof step.run>[2]
+                    ) => {
+                      return step.run(
+                        idOrOptions,
+                        async (runCtx) => {
+                          stepStartedAt = Date.now();
+
+                          try {
+                            return await fn(runCtx);
+                          } finally {
+                            stepEndedAt = Date.now();
+                          }
+                        },
+                        opts
+                      );
+                    },
+                    ...(propagate
+                      ? {
+                          sendEvent: ((id, payload) => {
+                            return step.sendEvent(
+                              id,
+                              (Array.isArray(payload)
+                                ? payload.map(withTraceContext)
+                                : withTraceContext(payload)) as typeof payload
+                            );
+                          }) as typeof step.sendEvent,
+                          invoke: ((id, opts) => {
+                            return step.invoke(id, withTraceContext(opts));
+                          }) as typeof step.invoke,
+                        }
+                      : {}),
+                  },
+                },
+              };
+            },
+
+            beforeExecution() {
+              executionStartedAt ??= Date.now();
+            },
+
+            afterExecution() {
+              executionEndedAt = Date.now();
+            },
+
+            transformOutput({ result, step }) {
+              if (!step) {
+                if (typeof result.error !== "undefined") {
+                  recordError(requestSpan, result.error);
+                }
+
+                runError = result.error;
+
+                return;
+              }
+
+              const stepSpan = tracer.startSpan(
+                "inngest.step",
+                {
+                  attributes: {
+                    ...runAttributes,
+                    ...getStepAttributes(step),
+                  },
+                  startTime: stepStartedAt ?? executionStartedAt,
+                },
+                requestContext
+              );
+
+              if (typeof result.error !== "undefined") {
+                recordError(stepSpan, result.error);
+              }
+
+              stepSpan.end(stepEndedAt ?? executionEndedAt);
+            },
+
+            beforeResponse({ result }) {
+              endRun(result);
+              requestSpan.end();
+            },
+          };
+        },
+      };
+    },
+  });
+};
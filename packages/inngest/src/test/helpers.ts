@@ -22,7 +22,7 @@ import {
   serverKind,
 } from "@local/helpers/consts";
 import { type Env } from "@local/helpers/env";
-import { slugify } from "@local/helpers/strings";
+import { signDataWithKey, slugify } from "@local/helpers/strings";
 import { EventPayload, type FunctionConfig } from "@local/types";
 import { fromPartial } from "@total-typescript/shoehorn";
 import fetch from "cross-fetch";
@@ -394,6 +394,210 @@ export const testFramework = (
           has_signing_key: true,
         });
       });
+
+      describe("readiness probe", () => {
+        const signingKey =
+          "signkey-test-f00f3005a3666b359a79c2bc3380ce2715e62727ac461ae1a2618f8766029c9f";
+
+        const client = createClient({
+          id: "test",
+          isDev: false,
+          eventKey: "event-key",
+        });
+
+        const fn = client.createFunction(
+          { id: "test" },
+          { event: "demo/event.sent" },
+          () => "fn"
+        );
+
+        /**
+         * Probe the handler, signing the request with the given key unless
+         * it's `null`.
+         */
+        const probe = (
+          serveHandler: ServeHandler,
+          key: string | null = signingKey
+        ) => {
+          nock("https://api.inngest.com").get("/").reply(404);
+
+          const timestamp = Math.round(Date.now() / 1000).toString();
+
+          return run(serveHandler, [
+            {
+              method: "GET",
+              url: "/api/inngest?probe=ready",
+              headers:
+                key === null
+                  ? {}
+                  : {
+                      [headerKeys.Signature]: `t=${timestamp}&s=${signDataWithKey(
+                        timestamp,
+                        key
+                      )}`,
+                    },
+            },
+          ]);
+        };
+
+        test("reports ready once functions are registered", async () => {
+          const serveHandler = getServeHandler([
+            { client, functions: [fn], signingKey },
+          ]) as ServeHandler;
+
+          nock("https://api.inngest.com")
+            .post("/fn/register")
+            .reply(200, { status: 200 });
+
+          await run(serveHandler, [{ method: "PUT" }]);
+
+          const ret = await probe(serveHandler);
+
+          expect(ret.status).toBe(200);
+          expect(JSON.parse(ret.body)).toEqual({
+            status: "ready",
+            mode: "cloud",
+            checks: {
+              signing_key: expect.objectContaining({ status: "pass" }),
+              event_key: expect.objectContaining({ status: "pass" }),
+              functions_synced: expect.objectContaining({ status: "pass" }),
+              api_reachable: expect.objectContaining({ status: "pass" }),
+            },
+          });
+
+          const signature = new URLSearchParams(
+            ret.headers[headerKeys.Signature]
+          );
+          expect(signature.get("s")).toBe(
+            signDataWithKey(ret.body + signature.get("t"), signingKey)
+          );
+        });
+
+        test("warns if functions haven't been registered", async () => {
+          const ret = await probe(
+            getServeHandler([
+              { client, functions: [fn], signingKey },
+            ]) as ServeHandler
+          );
+
+          expect(ret.status).toBe(200);
+          expect(JSON.parse(ret.body)).toMatchObject({
+            status: "ready",
+            checks: { functions_synced: { status: "warn" } },
+          });
+        });
+
+        test("reports not ready if any check fails", async () => {
+          const ret = await probe(
+            getServeHandler([
+              {
+                client: createClient({ id: "test", isDev: false }),
+                functions: [fn],
+                signingKey: "not-a-key",
+              },
+            ]) as ServeHandler,
+            "not-a-key"
+          );
+
+          expect(ret.status).toBe(503);
+          expect(JSON.parse(ret.body)).toMatchObject({
+            status: "not_ready",
+            checks: {
+              signing_key: { status: "fail" },
+              event_key: { status: "fail" },
+              api_reachable: { status: "pass" },
+            },
+          });
+        });
+
+        test("only reports the status to unsigned requests", async () => {
+          const ret = await probe(
+            getServeHandler([
+              {
+                client: createClient({ id: "test", isDev: false }),
+                functions: [fn],
+                signingKey,
+              },
+            ]) as ServeHandler,
+            null
+          );
+
+          expect(ret.status).toBe(503);
+          expect(JSON.parse(ret.body)).toEqual({ status: "not_ready" });
+          expect(ret.headers).not.toHaveProperty(headerKeys.Signature);
+        });
+
+        test("reuses recent checks of the API", async () => {
+          const serveHandler = getServeHandler([
+            { client, functions: [fn], signingKey },
+          ]) as ServeHandler;
+
+          const first = await probe(serveHandler);
+          const second = await probe(serveHandler);
+
+          expect(JSON.parse(first.body)).toMatchObject({
+            checks: { api_reachable: { status: "pass" } },
+          });
+          expect(JSON.parse(second.body)).toMatchObject({
+            checks: { api_reachable: { status: "pass" } },
+          });
+
+          // Only the first probe's request to the API should have been made
+          expect(nock.pendingMocks()).toHaveLength(1);
+        });
+      });
+
+      test("shows timings of the last execution in dev mode", async () => {
+        const client = createClient({ id: "test", isDev: true });
+
+        const fn = client.createFunction(
+          { id: "test" },
+          { event: "demo/event.sent" },
+          async ({ step }) => {
+            await step.run("a", () => "a");
+          }
+        );
+
+        const serveHandler = getServeHandler([
+          { client, functions: [fn] },
+        ]) as ServeHandler;
+
+        const event = { name: "demo/event.sent", data: {} };
+
+        await run(serveHandler, [
+          {
+            method: "POST",
+            url: "/api/inngest?fnId=test-test&stepId=step",
+            body: {
+              ctx: { run_id: "run", attempt: 0 },
+              event,
+              events: [event],
+              steps: {},
+            },
+          },
+        ]);
+
+        const ret = await run(serveHandler, [
+          {
+            method: "GET",
+            headers: { [headerKeys.InngestServerKind]: serverKind.Dev },
+          },
+        ]);
+
+        const body = JSON.parse(ret.body);
+
+        expect(body.last_execution_timings).toMatchObject([
+          { name: "handler" },
+          {
+            name: "action",
+            children: [
+              { name: "memoization" },
+              { name: "step", description: "a" },
+            ],
+          },
+          { name: "res", duration: expect.any(Number) },
+        ]);
+      });
     });
 
     describe("PUT (register)", () => {
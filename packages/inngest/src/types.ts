@@ -12,6 +12,8 @@ import {
   type InngestMiddleware,
 } from "./components/InngestMiddleware";
 import { type createStepTools } from "./components/InngestStepTools";
+import { type OutboxAdapter } from "./components/Outbox";
+import { type TimingSpan } from "./helpers/ServerTiming";
 import { type internalEvents } from "./helpers/consts";
 import {
   type AsTuple,
@@ -354,6 +356,18 @@ export type BaseContext<
    * is incremented every time the function throws an error and is retried.
    */
   attempt: number;
+
+  /**
+   * A signal that is aborted once this execution of the function is over,
+   * such as when a step has been run and its result is being returned to
+   * Inngest, when a step times out, or when a streamed response is cancelled
+   * because its keepalive expired or the run was cancelled.
+   *
+   * Pass it to long-running work like `fetch()` so that it can be cancelled
+   * instead of running on after the request has ended. The same signal is
+   * also passed to `step.run()` callbacks.
+   */
+  signal: AbortSignal;
 };
 
 /**
@@ -649,6 +663,72 @@ export interface ClientOptions {
    */
   schemas?: EventSchemas<Record<string, EventPayload>>;
 
+  /**
+   * If `true`, events will be validated at runtime against any Zod schemas
+   * given to `schemas` using `EventSchemas.fromZod()`.
+   *
+   * Events are validated before they're sent using `inngest.send()` or
+   * `step.sendEvent()`, and incoming events are validated before a function's
+   * handler runs. An invalid event will throw an `EventValidationError`
+   * containing the path of every invalid value.
+   *
+   * Defaults to `false`.
+   */
+  validateEvents?: boolean;
+
+  /**
+   * Retry sending events using `inngest.send()` if the request fails due to a
+   * network error, a `429`, or a `5xx` response, waiting between attempts
+   * using exponential backoff with jitter. If the response has a
+   * `retry-after` header, that is respected instead.
+   *
+   * Can be the number of times to retry or a set of options. When enabled,
+   * every event without an `id` is given one before the first attempt, so that
+   * retries can't cause events to be duplicated.
+   *
+   * Defaults to `0`, meaning sending is not retried.
+   */
+  sendRetries?: number | SendRetryOptions;
+
+  /**
+   * Limits used to split the events given to `inngest.send()` across multiple
+   * requests, so that sending many events at once doesn't exceed the maximum
+   * request size accepted by Inngest.
+   *
+   * If any request fails while others succeed, a `SendEventPartialError` is
+   * thrown containing the IDs of the sent events and the events that failed.
+   */
+  sendChunking?: SendChunkingOptions;
+
+  /**
+   * Buffer events sent using `inngest.send()` for a short time, so that calls
+   * made close together are coalesced into a single request instead of making
+   * a request for each call. Each call still resolves with the IDs of its own
+   * events once they've been sent.
+   *
+   * Buffered events are sent once `maxWait` has passed since the first was
+   * buffered, or once `maxEvents` are buffered, whichever comes first. In
+   * serverless environments, call `inngest.flush()` before shutting down to
+   * make sure every buffered event has been sent.
+   *
+   * Can be `true` to use the default options, or a set of options.
+   *
+   * Defaults to `false`, meaning every call makes its own request.
+   */
+  sendBuffer?: boolean | SendBufferOptions;
+
+  /**
+   * An outbox that events are written to instead of being sent when
+   * `inngest.send()` is given a `transaction`, so that events are only sent if
+   * the transaction commits. Events are then sent to Inngest using an
+   * `OutboxRelay`.
+   *
+   * Events still pass through middleware before they're written, so any
+   * transformation such as encryption has already been applied to events in
+   * the outbox.
+   */
+  outbox?: OutboxAdapter;
+
   /**
    * The Inngest environment to send events to. Defaults to whichever
    * environment this client's event key is associated with.
@@ -686,6 +766,100 @@ export interface ClientOptions {
   isDev?: boolean;
 }
 
+/**
+ * Options used to retry sending events using `inngest.send()`.
+ *
+ * @public
+ */
+export interface SendRetryOptions {
+  /**
+   * The maximum number of times to retry sending events.
+   */
+  retries: number;
+
+  /**
+   * The time in milliseconds to wait before the first retry. The wait doubles
+   * for each retry after that.
+   *
+   * Defaults to `200`.
+   */
+  initialDelay?: number;
+
+  /**
+   * The maximum time in milliseconds to wait between retries, including when
+   * a `retry-after` header asks for a longer wait.
+   *
+   * Defaults to `10000`.
+   */
+  maxDelay?: number;
+}
+
+/**
+ * Limits used to split the events given to `inngest.send()` across multiple
+ * requests.
+ *
+ * @public
+ */
+export interface SendChunkingOptions {
+  /**
+   * The maximum size in bytes of the events sent in a single request. A single
+   * event larger than this is still sent, in a request on its own.
+   *
+   * Defaults to `262144` (256KB).
+   */
+  maxBytes?: number;
+
+  /**
+   * The maximum number of events sent in a single request.
+   *
+   * Defaults to `5000`.
+   */
+  maxEvents?: number;
+
+  /**
+   * The maximum number of requests in progress at once.
+   *
+   * Defaults to `5`.
+   */
+  concurrency?: number;
+}
+
+/**
+ * Options for a single call to `inngest.send()`.
+ *
+ * @public
+ */
+export interface SendEventOptions {
+  /**
+   * A transaction to write the events to the client's `outbox` as part of,
+   * instead of sending them to Inngest immediately.
+   */
+  transaction?: unknown;
+}
+
+/**
+ * Options for buffering events sent using `inngest.send()`.
+ *
+ * @public
+ */
+export interface SendBufferOptions {
+  /**
+   * The maximum time in milliseconds to wait for more events before sending
+   * those that are buffered.
+   *
+   * Defaults to `10`.
+   */
+  maxWait?: number;
+
+  /**
+   * The number of buffered events that will cause them to be sent
+   * immediately, without waiting for `maxWait`.
+   *
+   * Defaults to `100`.
+   */
+  maxEvents?: number;
+}
+
 /**
  * A set of log levels that can be used to control the amount of logging output
  * from various parts of the Inngest library.
@@ -994,6 +1168,15 @@ export interface InsecureIntrospection {
   has_event_key: boolean;
   has_signing_key: boolean;
   mode: "cloud" | "dev";
+
+  /**
+   * The timings recorded during the last request to execute a function, from
+   * receiving the request through memoization and each step to sending the
+   * response.
+   *
+   * Only shown in Dev mode or when the introspection request is signed.
+   */
+  last_execution_timings?: TimingSpan[];
 }
 
 export interface SecureIntrospection extends InsecureIntrospection {
@@ -1001,6 +1184,62 @@ export interface SecureIntrospection extends InsecureIntrospection {
   signing_key_hash: string | null;
 }
 
+/**
+ * The result of a single check made when reporting readiness.
+ *
+ * A `"warn"` status is reported, but doesn't stop the endpoint being ready.
+ *
+ * @internal
+ */
+export interface ReadinessCheck {
+  status: "pass" | "warn" | "fail";
+  message: string;
+}
+
+/**
+ * The response to a readiness probe, made using a `GET` request with
+ * `?probe=ready`. Responds with a `503` status if any check fails.
+ *
+ * Only the status is reported unless the request is signed or the handler is
+ * in Dev mode.
+ *
+ * @internal
+ */
+export interface InsecureReadinessReport {
+  status: "ready" | "not_ready";
+}
+
+/**
+ * The full response to a readiness probe, including the result of each check.
+ *
+ * @internal
+ */
+export interface ReadinessReport extends InsecureReadinessReport {
+  mode: "cloud" | "dev";
+  checks: {
+    /**
+     * Whether a signing key is set and is in the expected format.
+     */
+    signing_key: ReadinessCheck;
+
+    /**
+     * Whether an event key is set.
+     */
+    event_key: ReadinessCheck;
+
+    /**
+     * Whether the functions being served match those last registered with
+     * Inngest by this handler.
+     */
+    functions_synced: ReadinessCheck;
+
+    /**
+     * Whether the Inngest API, or the Dev Server in Dev mode, is reachable.
+     */
+    api_reachable: ReadinessCheck;
+  };
+}
+
 /**
  * A block representing an individual function being registered to Inngest
  * Cloud.
@@ -1131,6 +1370,83 @@ export interface StepOptions {
  */
 export type StepOptionsOrId = StepOptions["id"] | StepOptions;
 
+/**
+ * Options for a `step.run()` call, which can also declare how the step is
+ * retried if it fails.
+ *
+ * @public
+ */
+export interface StepRunOptions extends StepOptions {
+  /**
+   * The number of times to retry this step if it fails, which can be at most
+   * the function's `retries`. Used to retry a step fewer times than the rest
+   * of the function; as the function's `retries` are enforced by Inngest, any
+   * higher value has no effect.
+   */
+  retries?: number;
+
+  /**
+   * How long to wait between retries of this step, using exponential backoff
+   * with jitter. If not given, Inngest's default backoff is used.
+   */
+  backoff?: StepBackoffOptions;
+
+  /**
+   * The maximum time this step may take on each attempt, as a number of
+   * milliseconds or a time string such as `"30s"`. If the step takes longer,
+   * it fails with a `StepTimeoutError` and is retried like any other failure.
+   *
+   * The step's function is not stopped when it times out, so any work it does
+   * afterwards is ignored.
+   */
+  timeout?: number | TimeStr;
+}
+
+/**
+ * Options for the exponential backoff between retries of a `step.run()` call.
+ *
+ * @public
+ */
+export interface StepBackoffOptions {
+  /**
+   * The time to wait before the first retry. The wait doubles for each retry
+   * after that. Can be a number of milliseconds or a time string such as
+   * `"30s"`.
+   *
+   * Defaults to `"1s"`.
+   */
+  initialDelay?: number | TimeStr;
+
+  /**
+   * The maximum time to wait between retries. Can be a number of milliseconds
+   * or a time string such as `"10m"`.
+   *
+   * Defaults to `"10m"`.
+   */
+  maxDelay?: number | TimeStr;
+}
+
+/**
+ * Either a step ID or a set of `step.run()` options.
+ *
+ * @public
+ */
+export type StepRunOptionsOrId = StepRunOptions["id"] | StepRunOptions;
+
+/**
+ * The argument passed to the callback of a `step.run()` call.
+ *
+ * @public
+ */
+export interface StepRunContext {
+  /**
+   * The same signal as the function's context, aborted if the step times out
+   * or the execution of the function is over. Pass it to long-running work
+   * like `fetch()` so that it can be cancelled cleanly.
+   */
+  signal: AbortSignal;
+}
+
 export type EventsFromFunction<T extends InngestFunction.Any> =
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   T extends InngestFunction<any, any, any, infer IClient, any, any>
@@ -1213,6 +1529,36 @@ export type PayloadForAnyInngestFunction<
       >
   : never;
 
+/**
+ * The response of a request made using `step.fetch()`, recorded so that it can
+ * be returned on subsequent executions without making the request again.
+ *
+ * @public
+ */
+export interface StepFetchResponse {
+  /**
+   * The final URL of the response, after any redirects.
+   */
+  url: string;
+  status: number;
+  statusText: string;
+
+  /**
+   * Whether the response was successful, with a status in the range 200-299.
+   */
+  ok: boolean;
+
+  /**
+   * The headers of the response, with lowercased names.
+   */
+  headers: Record<string, string>;
+
+  /**
+   * The body of the response as text. Use `JSON.parse()` to read a JSON body.
+   */
+  body: string;
+}
+
 export type InvocationResult<TReturn> = Promise<TReturn>;
 // TODO Types ready for when we expand this.
 // & {
@@ -1221,6 +1567,16 @@ export type InvocationResult<TReturn> = Promise<TReturn>;
 //   queued: Promise<{ runId: string }>;
 // };
 
+/**
+ * The result of a single invocation made using `step.invokeMany()`, containing
+ * either the output of the invoked function or the error it failed with.
+ *
+ * @public
+ */
+export type InvokeManyResult<TReturn> =
+  | { ok: true; data: TReturn }
+  | { ok: false; error: Error };
+
 /**
  * Simplified version of Rust style `Result`
  *